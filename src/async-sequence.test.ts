@@ -0,0 +1,365 @@
+import test from 'ava';
+
+import AsyncSequence from './async-sequence';
+import EqualityComparer from './equality-comparer';
+import { ArgumentOutOfRangeError, InvalidOperationError } from './errors';
+import List from './list';
+
+interface IPerson {
+  name: string;
+  age: number;
+}
+
+// resolves after the given number of microtask ticks
+const delay = async <T>(value: T, ticks: number = 1): Promise<T> => {
+  for (let i = 0; i < ticks; i += 1) {
+    await Promise.resolve();
+  }
+
+  return value;
+};
+
+// stands in for a paginated remote API
+async function* fetchPeople(): AsyncIterableIterator<IPerson> {
+  const pages = [
+    [
+      { age: 50, name: 'Bob' },
+      { age: 15, name: 'Cathy' }
+    ],
+    [
+      { age: 25, name: 'Alice' },
+      { age: 15, name: 'Dave' }
+    ]
+  ];
+  for (const page of pages) {
+    for (const person of await delay(page)) {
+      yield person;
+    }
+  }
+}
+
+const people = () => new AsyncSequence<IPerson>(fetchPeople);
+
+test('Deferred execution', async t => {
+  let pulled = 0;
+  async function* numbers(): AsyncIterableIterator<number> {
+    for (let n = 1; n <= 5; n += 1) {
+      pulled += 1;
+      yield n;
+    }
+  }
+  const query = new AsyncSequence<number>(numbers)
+    .where(x => x > 1)
+    .select(x => x * 10);
+
+  t.is(pulled, 0);
+  t.is(await query.first(), 20);
+  t.is(pulled, 2);
+  t.deepEqual(await query.toArray(), [20, 30, 40, 50]);
+});
+
+test('for await...of', async t => {
+  const names: string[] = [];
+  for await (const name of people().select(p => p.name)) {
+    names.push(name);
+  }
+  t.deepEqual(names, ['Bob', 'Cathy', 'Alice', 'Dave']);
+});
+
+test('List of promises as source', async t => {
+  const list = new List<Promise<number>>([delay(1, 5), delay(2), delay(3)]);
+  t.deepEqual(await new AsyncSequence<number>(list).toArray(), [1, 2, 3]);
+  t.is(
+    await new AsyncSequence<number>([1, delay(2)]).sum(),
+    3
+  );
+});
+
+// ava fails the run when a rejection is left unhandled
+test('Rejected promises in the source are always handled', async t => {
+  const failing = () =>
+    new List<Promise<number>>([
+      delay(1, 5),
+      delay(2).then(() => Promise.reject(new Error('boom')))
+    ]);
+  await t.throws(new AsyncSequence<number>(failing()).toArray(), /boom/);
+  t.is(await new AsyncSequence<number>(failing()).first(), 1);
+  await delay(undefined, 20);
+});
+
+test('Async predicates and selectors', async t => {
+  t.deepEqual(
+    await people()
+      .where(async p => delay(p.age > 20))
+      .select(async p => delay(p.name.toUpperCase()))
+      .toArray(),
+    ['BOB', 'ALICE']
+  );
+  t.is(await people().count(async p => p.age === 15), 2);
+  t.true(await people().all(async p => p.age > 10));
+  t.false(await people().any(async p => p.age > 60));
+});
+
+test('Select with concurrency', async t => {
+  let running = 0;
+  let peak = 0;
+  const lookup = async (x: number) => {
+    running += 1;
+    peak = Math.max(peak, running);
+    await delay(undefined, 10 - x);
+    running -= 1;
+
+    return x * 2;
+  };
+  const numbers = new AsyncSequence<number>([1, 2, 3, 4, 5, 6]);
+
+  t.deepEqual(await numbers.select(lookup, 3).toArray(), [2, 4, 6, 8, 10, 12]);
+  t.is(peak, 3);
+
+  peak = 0;
+  await numbers.select(lookup).toArray();
+  t.is(peak, 1);
+});
+
+test('Select propagates errors', async t => {
+  const failing = new AsyncSequence<number>([1, 2, 3]).select(async x => {
+    if (x === 3) {
+      throw new Error('boom');
+    }
+
+    return delay(x, 10);
+  }, 3);
+  await t.throws(failing.toArray(), /boom/);
+});
+
+test('SelectMany', async t => {
+  t.deepEqual(
+    await new AsyncSequence<number>([1, 2])
+      .selectMany(async x => [x, delay(x * 10)])
+      .toArray(),
+    [1, 10, 2, 20]
+  );
+  t.deepEqual(
+    await new AsyncSequence<number>([3])
+      .selectMany(() => fetchPeople())
+      .count(),
+    4
+  );
+});
+
+test('GroupBy / ToLookup', async t => {
+  const groups = await people().groupBy(
+    async p => p.age,
+    p => p.name
+  );
+  t.deepEqual(groups.keys.toArray(), [50, 15, 25]);
+  t.deepEqual(groups.get(15).toArray(), ['Cathy', 'Dave']);
+  t.deepEqual(
+    (await people().groupBy(
+      p => p.age,
+      p => p.name,
+      async (age, names) => delay(`${age}: ${names.count()}`)
+    )).toArray(),
+    ['50: 1', '15: 2', '25: 1']
+  );
+  const lookup = await people().toLookup(
+    p => p.name[0],
+    p => p.age
+  );
+  t.deepEqual(lookup.keys.toArray(), ['B', 'C', 'A', 'D']);
+  t.deepEqual(lookup.get('A').toArray(), [25]);
+});
+
+test('First / Last / Single / ElementAt', async t => {
+  t.is((await people().first()).name, 'Bob');
+  t.is((await people().last(p => p.age === 15)).name, 'Dave');
+  t.is((await people().single(p => p.age > 40)).name, 'Bob');
+  t.is((await people().elementAt(2)).name, 'Alice');
+  t.is(await people().firstOrDefault(p => p.age > 60), undefined);
+  t.is(await people().lastOrDefault(p => p.age > 60), undefined);
+  t.is(await people().singleOrDefault(p => p.age > 60), undefined);
+  t.is(await people().elementAtOrDefault(9), undefined);
+  await t.throws(
+    new AsyncSequence<number>().first(),
+    InvalidOperationError
+  );
+  await t.throws(
+    people().single(p => p.age === 15),
+    InvalidOperationError
+  );
+  await t.throws(
+    people().elementAt(9),
+    ArgumentOutOfRangeError
+  );
+});
+
+test('Aggregates', async t => {
+  t.is(await people().sum(p => p.age), 105);
+  t.is(await people().average(p => p.age), 26.25);
+  t.is(await people().min(async p => p.age), 15);
+  t.is(await people().max(p => p.age), 50);
+  t.is(await people().max(async p => delay(p.name)), 'Dave');
+  t.is((await people().minBy(async p => delay(p.age))).name, 'Cathy');
+  t.is(
+    (await people().maxBy(p => p.name, (a, b) => b.localeCompare(a))).name,
+    'Alice'
+  );
+  await t.throws(new AsyncSequence<number>().min(), InvalidOperationError);
+  t.is(await people().aggregate((ac, p) => `${ac}${p.name[0]}`, ''), 'BCAD');
+});
+
+test('Skip / Take', async t => {
+  const names = people().select(p => p.name);
+  t.deepEqual(
+    await names
+      .skip(1)
+      .take(2)
+      .toArray(),
+    ['Cathy', 'Alice']
+  );
+  t.deepEqual(await names.skipWhile(n => n !== 'Alice').toArray(), [
+    'Alice',
+    'Dave'
+  ]);
+  t.deepEqual(await names.takeWhile(async n => n !== 'Alice').toArray(), [
+    'Bob',
+    'Cathy'
+  ]);
+});
+
+test('OrderBy / ThenBy / Reverse', async t => {
+  t.deepEqual(
+    await people()
+      .orderBy(p => p.age)
+      .thenByDescending(p => p.name)
+      .select(p => p.name)
+      .toArray(),
+    ['Dave', 'Cathy', 'Alice', 'Bob']
+  );
+  t.deepEqual(
+    await people()
+      .select(p => p.name)
+      .reverse()
+      .toArray(),
+    ['Dave', 'Alice', 'Cathy', 'Bob']
+  );
+});
+
+test('Set operators', async t => {
+  const numbers = new AsyncSequence<number>([1, 2, 2, 3, 4]);
+  t.deepEqual(await numbers.distinct().toArray(), [1, 2, 3, 4]);
+  t.deepEqual(await numbers.except([2, 4]).toArray(), [1, 3]);
+  t.deepEqual(await numbers.intersect([delay(4), 3]).toArray(), [3, 4]);
+  t.deepEqual(await numbers.union([5, 1]).toArray(), [1, 2, 3, 4, 5]);
+  t.true(await numbers.contains(3));
+  t.true(await numbers.sequenceEqual([1, 2, 2, 3, 4]));
+  t.false(await numbers.sequenceEqual([1, 2, 2, 3]));
+  t.deepEqual(
+    await people()
+      .exceptBy([delay(15)], async p => p.age)
+      .select(p => p.name)
+      .toArray(),
+    ['Bob', 'Alice']
+  );
+  t.deepEqual(
+    await people()
+      .intersectBy([15], p => p.age)
+      .select(p => p.name)
+      .toArray(),
+    ['Cathy', 'Dave']
+  );
+  t.is(await people().unionBy(fetchPeople(), p => p.age).count(), 3);
+});
+
+test('Equality comparers', async t => {
+  const words = new AsyncSequence<string>(['a', 'B', 'b']);
+  const ignoreCase = EqualityComparer.IGNORE_CASE;
+  t.true(await words.contains('A', ignoreCase));
+  t.deepEqual(await words.distinct(ignoreCase).toArray(), ['a', 'B']);
+  t.deepEqual(await words.except(['b'], ignoreCase).toArray(), ['a']);
+  t.deepEqual(await words.intersect(['b'], ignoreCase).toArray(), ['B', 'b']);
+  t.deepEqual(await words.union(['C', 'A'], ignoreCase).toArray(), [
+    'a',
+    'B',
+    'C'
+  ]);
+  t.true(await words.sequenceEqual(['A', 'b', 'B'], ignoreCase));
+  t.deepEqual(
+    (await words.groupBy(x => x, x => x, ignoreCase)).get('b').toArray(),
+    ['B', 'b']
+  );
+  t.deepEqual(
+    await words
+      .join(['A', 'b'], x => x, y => y, (x, y) => x + y, ignoreCase)
+      .toArray(),
+    ['aA', 'Bb', 'bb']
+  );
+});
+
+test('Join / GroupJoin / Zip', async t => {
+  const owners = new AsyncSequence([
+    { id: 1, name: 'Terry' },
+    { id: 2, name: 'Ann' }
+  ]);
+  async function* pets(): AsyncIterableIterator<{
+    name: string;
+    owner: number;
+  }> {
+    yield { name: 'Barley', owner: 1 };
+    yield { name: 'Boots', owner: 1 };
+    yield { name: 'Daisy', owner: 2 };
+  }
+  t.deepEqual(
+    await owners
+      .join(
+        pets(),
+        o => o.id,
+        p => p.owner,
+        (o, p) => `${o.name} - ${p.name}`
+      )
+      .toArray(),
+    ['Terry - Barley', 'Terry - Boots', 'Ann - Daisy']
+  );
+  t.deepEqual(
+    await owners
+      .groupJoin(
+        pets(),
+        o => o.id,
+        p => p.owner,
+        (o, ps) => ps.count()
+      )
+      .toArray(),
+    [2, 1]
+  );
+  t.deepEqual(
+    await owners
+      .join(
+        [{ name: 'Rex', owner: 'ann' }],
+        async o => o.name.toLowerCase(),
+        async p => p.owner,
+        (o, p) => `${o.name} - ${p.name}`
+      )
+      .toArray(),
+    ['Ann - Rex']
+  );
+  t.deepEqual(
+    await owners.zip(['a', 'b', 'c'], (o, x) => `${o.name}${x}`).toArray(),
+    ['Terrya', 'Annb']
+  );
+});
+
+test('ToList / DefaultIfEmpty / OfType', async t => {
+  t.deepEqual(
+    await new AsyncSequence<number>([1, 2]).toList(),
+    new List<number>([1, 2])
+  );
+  t.deepEqual(await new AsyncSequence<number>().defaultIfEmpty(0).toArray(), [
+    0
+  ]);
+  t.is(
+    await new AsyncSequence<any>(['a', 1, 'b'])
+      .ofType(String)
+      .count(),
+    2
+  );
+});
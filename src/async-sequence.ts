@@ -0,0 +1,1013 @@
+import {
+  composeComparers,
+  keyComparer,
+  stableSort,
+  typeNameOf
+} from './helpers';
+import EqualityComparer, { IEqualityComparer } from './equality-comparer';
+import { ArgumentOutOfRangeError, InvalidOperationError } from './errors';
+import HashSet from './hash-set';
+import List from './list';
+import { Grouping, Lookup } from './sequence';
+
+type Awaitable<T> = T | PromiseLike<T>;
+
+/**
+ * Represents a lazily evaluated asynchronous sequence, such as the pages of a remote API or the values
+ * of an async generator. Like Sequence<T>, operators only compose the query; it runs when the sequence
+ * is enumerated with for await...of or by awaiting one of its materializing methods such as toArray or first.
+ * Predicates and selectors may return promises.
+ */
+class AsyncSequence<T> implements AsyncIterable<T> {
+  // tslint:disable-next-line: variable-name
+  protected _source: () => AsyncIterator<T>;
+
+  /**
+   * Wraps an async iterable, a finite iterable of values or promises (such as a List<Promise<T>>), which is read
+   * in full when the sequence is enumerated, or a function returning a fresh async iterator on every enumeration
+   */
+  constructor(
+    source:
+      | AsyncIterable<T>
+      | Iterable<Awaitable<T>>
+      | (() => AsyncIterator<T>) = []
+  ) {
+    const iterable = <any>source;
+    if (typeof source === 'function') {
+      this._source = source;
+    } else if (typeof iterable[Symbol.asyncIterator] === 'function') {
+      this._source = () => iterable[Symbol.asyncIterator]();
+    } else {
+      this._source = () => awaitEachIterator<T>(iterable);
+    }
+  }
+
+  /**
+   * Returns an async iterator that runs the query.
+   */
+  public [Symbol.asyncIterator](): AsyncIterator<T> {
+    return this._source();
+  }
+
+  /**
+   * Applies an accumulator function over a sequence.
+   */
+  public async aggregate<U>(
+    accumulator: (accum: U, value: T, index: number) => Awaitable<U>,
+    initialValue?: U
+  ): Promise<U> {
+    let accum = initialValue;
+    let index = 0;
+    for await (const value of this) {
+      accum = await accumulator(accum, value, index);
+      index += 1;
+    }
+
+    return accum;
+  }
+
+  /**
+   * Determines whether all elements of a sequence satisfy a condition.
+   */
+  public async all(
+    predicate: (value: T, index: number) => Awaitable<boolean>
+  ): Promise<boolean> {
+    return !(await this.any(
+      async (value, index) => !(await predicate(value, index))
+    ));
+  }
+
+  /**
+   * Determines whether a sequence contains any elements.
+   */
+  // tslint:disable-next-line: no-reserved-keywords
+  public async any(
+    predicate?: (value: T, index: number) => Awaitable<boolean>
+  ): Promise<boolean> {
+    let index = 0;
+    for await (const value of this) {
+      if (!predicate || (await predicate(value, index))) {
+        return true;
+      }
+      index += 1;
+    }
+
+    return false;
+  }
+
+  /**
+   * Computes the average of a sequence of number values that are obtained by invoking
+   * a transform function on each element of the input sequence.
+   */
+  public async average(
+    transform?: (value: T, index: number) => Awaitable<number>
+  ): Promise<number> {
+    const total = await this.aggregate(
+      async (ac, v, i) => ({
+        count: ac.count + 1,
+        sum: ac.sum + (transform ? await transform(v, i) : +v)
+      }),
+      { count: 0, sum: 0 }
+    );
+
+    return total.sum / total.count;
+  }
+
+  /**
+   * Casts the elements of a sequence to the specified type.
+   */
+  public cast<U>(): AsyncSequence<U> {
+    return new AsyncSequence<U>(<any>this._source);
+  }
+
+  /**
+   * Concatenates two sequences.
+   */
+  public concat(
+    second: AsyncIterable<T> | Iterable<Awaitable<T>>
+  ): AsyncSequence<T> {
+    return new AsyncSequence<T>(() =>
+      concatIterator(this, new AsyncSequence<T>(second))
+    );
+  }
+
+  /**
+   * Determines whether a sequence contains a specified element by using the default equality comparer,
+   * or a specified equality comparer.
+   */
+  public contains(
+    element: T,
+    comparer: IEqualityComparer<T> = EqualityComparer.DEFAULT
+  ): Promise<boolean> {
+    return this.any(x => comparer.equals(x, element));
+  }
+
+  /**
+   * Returns the number of elements in a sequence.
+   */
+  public count(
+    predicate?: (value: T, index: number) => Awaitable<boolean>
+  ): Promise<number> {
+    return this.aggregate(
+      async (ac, v, i) => (!predicate || (await predicate(v, i)) ? ac + 1 : ac),
+      0
+    );
+  }
+
+  /**
+   * Returns the elements of the specified sequence or the type parameter's default value
+   * in a singleton collection if the sequence is empty.
+   */
+  public defaultIfEmpty(defaultValue?: T): AsyncSequence<T> {
+    return new AsyncSequence<T>(() =>
+      defaultIfEmptyIterator(this, defaultValue)
+    );
+  }
+
+  /**
+   * Returns distinct elements from a sequence, keeping the first occurrence of each in source order.
+   * Values are compared with a specified equality comparer, or else structurally, so objects with
+   * the same properties count as duplicates.
+   */
+  public distinct(
+    comparer: IEqualityComparer<T> = EqualityComparer.STRUCTURAL
+  ): AsyncSequence<T> {
+    return this.distinctBy(x => x, comparer);
+  }
+
+  /**
+   * Returns distinct elements from a sequence according to specified key selector, keeping the first
+   * element for each key in source order. Keys are compared with a specified equality comparer, or else structurally.
+   */
+  public distinctBy<TKey>(
+    keySelector: (key: T) => Awaitable<TKey>,
+    comparer: IEqualityComparer<TKey> = EqualityComparer.STRUCTURAL
+  ): AsyncSequence<T> {
+    return new AsyncSequence<T>(() =>
+      distinctIterator(this, keySelector, comparer)
+    );
+  }
+
+  /**
+   * Returns the element at a specified index in a sequence.
+   */
+  public async elementAt(index: number): Promise<T> {
+    if (index >= 0) {
+      for await (const value of this.skip(index)) {
+        return value;
+      }
+    }
+    throw new ArgumentOutOfRangeError(
+      'index',
+      index,
+      'index is less than 0 or greater than or equal to the number of elements in source.'
+    );
+  }
+
+  /**
+   * Returns the element at a specified index in a sequence or a default value if the index is out of range.
+   */
+  public async elementAtOrDefault(index: number): Promise<T> {
+    return index >= 0 ? this.skip(index).firstOrDefault() : undefined;
+  }
+
+  /**
+   * Produces the set difference of two sequences. Values are compared with a specified equality comparer,
+   * or else structurally, like in every set operator, so objects with the same properties are equal.
+   * Yields the elements of this sequence that are not in the second one, in their original order and including duplicates.
+   */
+  public except(
+    second: AsyncIterable<T> | Iterable<Awaitable<T>>,
+    comparer?: IEqualityComparer<T>
+  ): AsyncSequence<T> {
+    return this.exceptBy(second, x => x, comparer);
+  }
+
+  /**
+   * Produces the set difference of two sequences according to a specified key selector function.
+   * Keys are compared with a specified equality comparer, or else structurally.
+   * Yields the elements of this sequence whose keys are not in the given keys, in their original order.
+   */
+  public exceptBy<TKey>(
+    keys: AsyncIterable<TKey> | Iterable<Awaitable<TKey>>,
+    keySelector: (key: T) => Awaitable<TKey>,
+    comparer: IEqualityComparer<TKey> = EqualityComparer.STRUCTURAL
+  ): AsyncSequence<T> {
+    return new AsyncSequence<T>(() =>
+      exceptIterator(this, keys, keySelector, false, comparer)
+    );
+  }
+
+  /**
+   * Returns the first element of a sequence.
+   */
+  public async first(
+    predicate?: (value: T, index: number) => Awaitable<boolean>
+  ): Promise<T> {
+    for await (const value of predicate ? this.where(predicate) : this) {
+      return value;
+    }
+    throw new InvalidOperationError('The source sequence is empty.');
+  }
+
+  /**
+   * Returns the first element of a sequence, or a default value if the sequence contains no elements.
+   */
+  public async firstOrDefault(
+    predicate?: (value: T, index: number) => Awaitable<boolean>
+  ): Promise<T> {
+    for await (const value of predicate ? this.where(predicate) : this) {
+      return value;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Performs the specified action on each element of the sequence, waiting for it before moving to the next one.
+   */
+  public async forEach(
+    action: (value: T, index: number) => Awaitable<any>
+  ): Promise<void> {
+    await this.aggregate(async (ac, v, i) => action(v, i), undefined);
+  }
+
+  /**
+   * Groups the elements of a sequence according to a specified key selector function, optionally projecting
+   * the elements of each group and comparing keys by using a specified equality comparer.
+   * When a result selector is given, creates a result value from each group and its key.
+   */
+  public groupBy<TKey, TElement = T>(
+    keySelector: (key: T) => Awaitable<TKey>,
+    elementSelector?: (element: T) => Awaitable<TElement>,
+    comparer?: IEqualityComparer<TKey>
+  ): Promise<Lookup<TKey, TElement>>;
+  public groupBy<TKey, TElement, TResult>(
+    keySelector: (key: T) => Awaitable<TKey>,
+    elementSelector: (element: T) => Awaitable<TElement>,
+    resultSelector: (
+      key: TKey,
+      elements: Grouping<TKey, TElement>
+    ) => Awaitable<TResult>,
+    comparer?: IEqualityComparer<TKey>
+  ): Promise<List<TResult>>;
+  public async groupBy<TKey, TElement, TResult>(
+    keySelector: (key: T) => Awaitable<TKey>,
+    elementSelector: (element: T) => Awaitable<TElement> = val =>
+      <TElement>(<any>val),
+    resultSelector?: any,
+    comparer?: IEqualityComparer<TKey>
+  ): Promise<Lookup<TKey, TElement> | List<TResult>> {
+    const pairs = await this.select(async v => ({
+      element: await elementSelector(v),
+      key: await keySelector(v)
+    })).toArray();
+    if (typeof resultSelector !== 'function') {
+      return Lookup.create(pairs, x => x.key, x => x.element, resultSelector);
+    }
+    const lookup = Lookup.create(pairs, x => x.key, x => x.element, comparer);
+
+    return new AsyncSequence(lookup)
+      .select(group => <Awaitable<TResult>>resultSelector(group.key, group))
+      .toList();
+  }
+
+  /**
+   * Correlates the elements of two sequences based on equality of keys and groups the results.
+   * Keys are compared with a specified equality comparer, or else structurally, so key selectors
+   * may return tuples or objects as composite keys.
+   * The inner sequence is enumerated and indexed by key once per enumeration of the query.
+   */
+  public groupJoin<U, TKey, TResult>(
+    inner: AsyncIterable<U> | Iterable<Awaitable<U>>,
+    key1: (k: T) => Awaitable<TKey>,
+    key2: (k: U) => Awaitable<TKey>,
+    result: (first: T, second: List<U>) => Awaitable<TResult>,
+    comparer: IEqualityComparer<TKey> = EqualityComparer.STRUCTURAL
+  ): AsyncSequence<TResult> {
+    const innerSequence = new AsyncSequence<U>(inner);
+
+    return new AsyncSequence<TResult>(() =>
+      groupJoinIterator(this, innerSequence, key1, key2, result, comparer)
+    );
+  }
+
+  /**
+   * Produces the set intersection of two sequences. Values are compared with a specified equality comparer,
+   * or else structurally, like in every set operator, so objects with the same properties are equal.
+   * Yields the elements of this sequence that are also in the second one, in their original order and including duplicates.
+   */
+  public intersect(
+    second: AsyncIterable<T> | Iterable<Awaitable<T>>,
+    comparer?: IEqualityComparer<T>
+  ): AsyncSequence<T> {
+    return this.intersectBy(second, x => x, comparer);
+  }
+
+  /**
+   * Produces the set intersection of two sequences according to a specified key selector function.
+   * Keys are compared with a specified equality comparer, or else structurally.
+   * Yields the elements of this sequence whose keys are in the given keys, in their original order.
+   */
+  public intersectBy<TKey>(
+    keys: AsyncIterable<TKey> | Iterable<Awaitable<TKey>>,
+    keySelector: (key: T) => Awaitable<TKey>,
+    comparer: IEqualityComparer<TKey> = EqualityComparer.STRUCTURAL
+  ): AsyncSequence<T> {
+    return new AsyncSequence<T>(() =>
+      exceptIterator(this, keys, keySelector, true, comparer)
+    );
+  }
+
+  /**
+   * Correlates the elements of two sequences based on matching keys.
+   * Keys are compared with a specified equality comparer, or else structurally, so key selectors
+   * may return tuples or objects as composite keys.
+   * The inner sequence is enumerated and indexed by key once per enumeration of the query;
+   * results follow the order of this sequence, then the order of the matches.
+   */
+  public join<U, TKey, TResult>(
+    inner: AsyncIterable<U> | Iterable<Awaitable<U>>,
+    key1: (key: T) => Awaitable<TKey>,
+    key2: (key: U) => Awaitable<TKey>,
+    result: (first: T, second: U) => Awaitable<TResult>,
+    comparer: IEqualityComparer<TKey> = EqualityComparer.STRUCTURAL
+  ): AsyncSequence<TResult> {
+    return this.groupJoin(
+      inner,
+      key1,
+      key2,
+      (x, matches) => matches.select(y => result(x, y)).toArray(),
+      comparer
+    ).selectMany(x => x);
+  }
+
+  /**
+   * Returns the last element of a sequence.
+   */
+  public async last(
+    predicate?: (value: T, index: number) => Awaitable<boolean>
+  ): Promise<T> {
+    const source = predicate ? this.where(predicate) : this;
+    let found = false;
+    let last: T;
+    for await (const value of source) {
+      found = true;
+      last = value;
+    }
+    if (!found) {
+      throw new InvalidOperationError('The source sequence is empty.');
+    }
+
+    return last;
+  }
+
+  /**
+   * Returns the last element of a sequence, or a default value if the sequence contains no elements.
+   */
+  public lastOrDefault(
+    predicate?: (value: T, index: number) => Awaitable<boolean>
+  ): Promise<T> {
+    return (predicate ? this.where(predicate) : this).aggregate(
+      (ac, v) => v,
+      undefined
+    );
+  }
+
+  /**
+   * Returns the maximum value in a generic sequence, such as a number, string or Date.
+   * Values are compared with the given comparer, or else with < and >. Throws if the sequence is empty.
+   */
+  public max(): Promise<T>;
+  public max<TResult>(
+    selector: (value: T, index: number) => Awaitable<TResult>,
+    comparer?: (a: TResult, b: TResult) => number
+  ): Promise<TResult>;
+  public max<TResult>(
+    selector?: (value: T, index: number) => Awaitable<TResult>,
+    comparer?: (a: TResult, b: TResult) => number
+  ): Promise<TResult> {
+    const values = selector ? this.select(selector) : <any>this;
+
+    return extremum<TResult, TResult>(values, x => x, 1, comparer);
+  }
+
+  /**
+   * Returns the first element with the largest key.
+   * Keys are compared with the given comparer, or else with < and >. Throws if the sequence is empty.
+   */
+  public maxBy<TKey>(
+    keySelector: (value: T, index: number) => Awaitable<TKey>,
+    comparer?: (a: TKey, b: TKey) => number
+  ): Promise<T> {
+    return extremum(this, keySelector, 1, comparer);
+  }
+
+  /**
+   * Returns the minimum value in a generic sequence, such as a number, string or Date.
+   * Values are compared with the given comparer, or else with < and >. Throws if the sequence is empty.
+   */
+  public min(): Promise<T>;
+  public min<TResult>(
+    selector: (value: T, index: number) => Awaitable<TResult>,
+    comparer?: (a: TResult, b: TResult) => number
+  ): Promise<TResult>;
+  public min<TResult>(
+    selector?: (value: T, index: number) => Awaitable<TResult>,
+    comparer?: (a: TResult, b: TResult) => number
+  ): Promise<TResult> {
+    const values = selector ? this.select(selector) : <any>this;
+
+    return extremum<TResult, TResult>(values, x => x, -1, comparer);
+  }
+
+  /**
+   * Returns the first element with the smallest key.
+   * Keys are compared with the given comparer, or else with < and >. Throws if the sequence is empty.
+   */
+  public minBy<TKey>(
+    keySelector: (value: T, index: number) => Awaitable<TKey>,
+    comparer?: (a: TKey, b: TKey) => number
+  ): Promise<T> {
+    return extremum(this, keySelector, -1, comparer);
+  }
+
+  /**
+   * Filters the elements of a sequence based on a specified type.
+   */
+  public ofType<U>($type: any): AsyncSequence<U> {
+    const typeName = typeNameOf($type);
+
+    return typeName === undefined
+      ? this.where(x => x instanceof $type).cast<U>()
+      : this.where(x => typeof x === typeName).cast<U>();
+  }
+
+  /**
+   * Sorts the elements of a sequence in ascending order according to a key.
+   */
+  public orderBy(
+    keySelector: (key: T) => any,
+    comparer = keyComparer(keySelector, false)
+  ): AsyncSequence<T> {
+    return new AsyncOrderedSequence<T>(this, comparer);
+  }
+
+  /**
+   * Sorts the elements of a sequence in descending order according to a key.
+   */
+  public orderByDescending(
+    keySelector: (key: T) => any,
+    comparer = keyComparer(keySelector, true)
+  ): AsyncSequence<T> {
+    return new AsyncOrderedSequence<T>(this, comparer);
+  }
+
+  /**
+   * Performs a subsequent ordering of the elements in a sequence in ascending order according to a key.
+   */
+  public thenBy(
+    keySelector: (key: T) => any,
+    comparer = keyComparer(keySelector, false)
+  ): AsyncSequence<T> {
+    return this.orderBy(keySelector, comparer);
+  }
+
+  /**
+   * Performs a subsequent ordering of the elements in a sequence in descending order, according to a key.
+   */
+  public thenByDescending(
+    keySelector: (key: T) => any,
+    comparer = keyComparer(keySelector, true)
+  ): AsyncSequence<T> {
+    return this.orderByDescending(keySelector, comparer);
+  }
+
+  /**
+   * Inverts the order of the elements in a sequence.
+   */
+  public reverse(): AsyncSequence<T> {
+    return new AsyncSequence<T>(() =>
+      awaitEachIterator(this.toArray().then(x => x.reverse()))
+    );
+  }
+
+  /**
+   * Projects each element of a sequence into a new form. When the selector is asynchronous,
+   * up to `concurrency` calls run at the same time; results are still yielded in source order.
+   */
+  public select<TOut>(
+    selector: (element: T, index: number) => Awaitable<TOut>,
+    concurrency: number = 1
+  ): AsyncSequence<TOut> {
+    return new AsyncSequence<TOut>(() =>
+      selectIterator(this, selector, Math.max(1, concurrency))
+    );
+  }
+
+  /**
+   * Projects each element of a sequence to an iterable or async iterable and flattens the resulting sequences into one sequence.
+   */
+  public selectMany<TOut>(
+    selector: (
+      element: T,
+      index: number
+    ) => Awaitable<AsyncIterable<TOut> | Iterable<Awaitable<TOut>>>
+  ): AsyncSequence<TOut> {
+    return new AsyncSequence<TOut>(() => selectManyIterator(this, selector));
+  }
+
+  /**
+   * Determines whether two sequences are equal by comparing the elements by using the default equality comparer
+   * for their type, or a specified equality comparer.
+   */
+  public async sequenceEqual(
+    second: AsyncIterable<T> | Iterable<Awaitable<T>>,
+    comparer: IEqualityComparer<T> = EqualityComparer.DEFAULT
+  ): Promise<boolean> {
+    const first = this[Symbol.asyncIterator]();
+    const other = new AsyncSequence<T>(second)[Symbol.asyncIterator]();
+    let a = await first.next();
+    let b = await other.next();
+    while (!a.done && !b.done) {
+      if (!comparer.equals(a.value, b.value)) {
+        return false;
+      }
+      a = await first.next();
+      b = await other.next();
+    }
+
+    return !!a.done && !!b.done;
+  }
+
+  /**
+   * Returns the only element of a sequence, and throws an exception if there is not exactly one element in the sequence.
+   */
+  public async single(
+    predicate?: (value: T, index: number) => Awaitable<boolean>
+  ): Promise<T> {
+    const matches = await (predicate ? this.where(predicate) : this)
+      .take(2)
+      .toArray();
+    if (matches.length !== 1) {
+      throw new InvalidOperationError(
+        'The collection does not contain exactly one element.'
+      );
+    }
+
+    return matches[0];
+  }
+
+  /**
+   * Returns the only element of a sequence, or a default value if the sequence is empty;
+   * this method throws an exception if there is more than one element in the sequence.
+   */
+  public async singleOrDefault(
+    predicate?: (value: T, index: number) => Awaitable<boolean>
+  ): Promise<T> {
+    const matches = await (predicate ? this.where(predicate) : this)
+      .take(2)
+      .toArray();
+    if (matches.length > 1) {
+      throw new InvalidOperationError(
+        'The collection does not contain exactly one element.'
+      );
+    }
+
+    return matches[0];
+  }
+
+  /**
+   * Bypasses a specified number of elements in a sequence and then returns the remaining elements.
+   */
+  public skip(amount: number): AsyncSequence<T> {
+    return this.skipWhile((x, i) => i < amount);
+  }
+
+  /**
+   * Bypasses elements in a sequence as long as a specified condition is true and then returns the remaining elements.
+   */
+  public skipWhile(
+    predicate: (value: T, index: number) => Awaitable<boolean>
+  ): AsyncSequence<T> {
+    return new AsyncSequence<T>(() => skipWhileIterator(this, predicate));
+  }
+
+  /**
+   * Computes the sum of the sequence of number values that are obtained by invoking
+   * a transform function on each element of the input sequence.
+   */
+  public sum(
+    transform?: (value: T, index: number) => Awaitable<number>
+  ): Promise<number> {
+    return this.aggregate(
+      async (ac, v, i) => ac + (transform ? await transform(v, i) : +v),
+      0
+    );
+  }
+
+  /**
+   * Returns a specified number of contiguous elements from the start of a sequence.
+   */
+  public take(amount: number): AsyncSequence<T> {
+    return new AsyncSequence<T>(() => takeIterator(this, amount));
+  }
+
+  /**
+   * Returns elements from a sequence as long as a specified condition is true.
+   */
+  public takeWhile(
+    predicate: (value: T, index: number) => Awaitable<boolean>
+  ): AsyncSequence<T> {
+    return new AsyncSequence<T>(() => takeWhileIterator(this, predicate));
+  }
+
+  /**
+   * Runs the query and copies its elements to a new array.
+   */
+  public toArray(): Promise<T[]> {
+    return this.aggregate((ac, v) => {
+      ac.push(v);
+
+      return ac;
+    }, <T[]>[]);
+  }
+
+  /**
+   * Runs the query and copies its elements to a new List<T>.
+   */
+  public async toList(): Promise<List<T>> {
+    return new List<T>(await this.toArray());
+  }
+
+  /**
+   * Creates a Lookup<TKey, TElement> from a sequence according to specified key selector and element selector functions,
+   * optionally comparing keys by using a specified equality comparer.
+   */
+  public toLookup<TKey, TElement = T>(
+    keySelector: (key: T) => Awaitable<TKey>,
+    elementSelector?: (element: T) => Awaitable<TElement>,
+    comparer?: IEqualityComparer<TKey>
+  ): Promise<Lookup<TKey, TElement>> {
+    return this.groupBy(keySelector, elementSelector, comparer);
+  }
+
+  /**
+   * Produces the set union of two sequences, comparing values like distinct does.
+   * Yields the distinct elements of this sequence followed by those of the second one that were not seen yet.
+   */
+  public union(
+    second: AsyncIterable<T> | Iterable<Awaitable<T>>,
+    comparer?: IEqualityComparer<T>
+  ): AsyncSequence<T> {
+    return this.concat(second).distinct(comparer);
+  }
+
+  /**
+   * Produces the set union of two sequences according to a specified key selector function,
+   * keeping the first element for each key: those of this sequence first, then those of the second one.
+   * Keys are compared with a specified equality comparer, or else structurally.
+   */
+  public unionBy<TKey>(
+    second: AsyncIterable<T> | Iterable<Awaitable<T>>,
+    keySelector: (key: T) => Awaitable<TKey>,
+    comparer: IEqualityComparer<TKey> = EqualityComparer.STRUCTURAL
+  ): AsyncSequence<T> {
+    return this.concat(second).distinctBy(keySelector, comparer);
+  }
+
+  /**
+   * Filters a sequence of values based on a predicate.
+   */
+  public where(
+    predicate: (value: T, index: number) => Awaitable<boolean>
+  ): AsyncSequence<T> {
+    return new AsyncSequence<T>(() => whereIterator(this, predicate));
+  }
+
+  /**
+   * Applies a specified function to the corresponding elements of two sequences, producing a sequence of the results.
+   */
+  public zip<U, TOut>(
+    second: AsyncIterable<U> | Iterable<Awaitable<U>>,
+    result: (first: T, second: U) => Awaitable<TOut>
+  ): AsyncSequence<TOut> {
+    const other = new AsyncSequence<U>(second);
+
+    return new AsyncSequence<TOut>(() => zipIterator(this, other, result));
+  }
+}
+
+/**
+ * Represents a sorted asynchronous sequence. The source is buffered and sorted once per enumeration.
+ */
+class AsyncOrderedSequence<T> extends AsyncSequence<T> {
+  constructor(
+    private readonly unsorted: AsyncSequence<T>,
+    private readonly comparer: (a: T, b: T) => number
+  ) {
+    super(() =>
+      awaitEachIterator(unsorted.toArray().then(x => stableSort(x, comparer)))
+    );
+  }
+
+  /**
+   * Performs a subsequent ordering of the elements in a sequence in ascending order according to a key.
+   */
+  public thenBy(
+    keySelector: (key: T) => any,
+    comparer = keyComparer(keySelector, false)
+  ): AsyncSequence<T> {
+    return new AsyncOrderedSequence<T>(
+      this.unsorted,
+      composeComparers(this.comparer, comparer)
+    );
+  }
+
+  /**
+   * Performs a subsequent ordering of the elements in a sequence in descending order, according to a key.
+   */
+  public thenByDescending(
+    keySelector: (key: T) => any,
+    comparer = keyComparer(keySelector, true)
+  ): AsyncSequence<T> {
+    return new AsyncOrderedSequence<T>(
+      this.unsorted,
+      composeComparers(this.comparer, comparer)
+    );
+  }
+}
+
+// tslint:disable-next-line: no-empty
+const ignore = () => {};
+
+// the asynchronous counterpart of the extremum helper used by List and Sequence
+const extremum = async <T, TKey>(
+  source: AsyncIterable<T>,
+  keySelector: (value: T, index: number) => Awaitable<TKey>,
+  sign: number,
+  comparer: (a: TKey, b: TKey) => number = keyComparer<TKey>(x => x)
+): Promise<T> => {
+  let found = false;
+  let best: T;
+  let bestKey: TKey;
+  let index = 0;
+  for await (const value of source) {
+    const key = await keySelector(value, index);
+    if (!found || sign * comparer(key, bestKey) > 0) {
+      found = true;
+      best = value;
+      bestKey = key;
+    }
+    index += 1;
+  }
+  if (!found) {
+    throw new InvalidOperationError('The source sequence is empty.');
+  }
+
+  return best;
+};
+
+async function* awaitEachIterator<T>(
+  source: Awaitable<Iterable<Awaitable<T>>>
+): AsyncIterableIterator<T> {
+  const values = Array.from(await source);
+  // the values are awaited in order below; this only keeps a rejection that settles while an earlier value
+  // is awaited, or after the caller stopped, from being reported as unhandled
+  values.forEach(value => Promise.resolve(value).catch(ignore));
+  for (const value of values) {
+    yield await value;
+  }
+}
+
+async function* concatIterator<T>(
+  first: AsyncIterable<T>,
+  second: AsyncIterable<T>
+): AsyncIterableIterator<T> {
+  for await (const value of first) {
+    yield value;
+  }
+  for await (const value of second) {
+    yield value;
+  }
+}
+
+async function* defaultIfEmptyIterator<T>(
+  source: AsyncIterable<T>,
+  defaultValue: T
+): AsyncIterableIterator<T> {
+  let empty = true;
+  for await (const value of source) {
+    empty = false;
+    yield value;
+  }
+  if (empty) {
+    yield defaultValue;
+  }
+}
+
+async function* distinctIterator<T, TKey>(
+  source: AsyncIterable<T>,
+  keySelector: (key: T) => Awaitable<TKey>,
+  comparer: IEqualityComparer<TKey>
+): AsyncIterableIterator<T> {
+  const seen = new HashSet<TKey>(comparer);
+  for await (const value of source) {
+    if (seen.add(await keySelector(value))) {
+      yield value;
+    }
+  }
+}
+
+async function* exceptIterator<T, TKey>(
+  source: AsyncIterable<T>,
+  keys: AsyncIterable<TKey> | Iterable<Awaitable<TKey>>,
+  keySelector: (key: T) => Awaitable<TKey>,
+  keep: boolean,
+  comparer: IEqualityComparer<TKey>
+): AsyncIterableIterator<T> {
+  const others = new HashSet<TKey>(
+    comparer,
+    await new AsyncSequence<TKey>(keys).toArray()
+  );
+  for await (const value of source) {
+    if (others.has(await keySelector(value)) === keep) {
+      yield value;
+    }
+  }
+}
+
+async function* groupJoinIterator<T, U, TKey, TResult>(
+  source: AsyncIterable<T>,
+  inner: AsyncSequence<U>,
+  key1: (k: T) => Awaitable<TKey>,
+  key2: (k: U) => Awaitable<TKey>,
+  result: (first: T, second: List<U>) => Awaitable<TResult>,
+  comparer: IEqualityComparer<TKey>
+): AsyncIterableIterator<TResult> {
+  const pairs = await inner
+    .select(async v => ({ element: v, key: await key2(v) }))
+    .toArray();
+  const lookup = Lookup.create(pairs, x => x.key, x => x.element, comparer);
+  for await (const value of source) {
+    yield await result(value, lookup.get(await key1(value)).toList());
+  }
+}
+
+async function* selectIterator<T, TOut>(
+  source: AsyncIterable<T>,
+  selector: (element: T, index: number) => Awaitable<TOut>,
+  concurrency: number
+): AsyncIterableIterator<TOut> {
+  const pending: Array<Promise<TOut>> = [];
+  let index = 0;
+  for await (const value of source) {
+    const current = index;
+    const result = Promise.resolve().then(() => selector(value, current));
+    // results are awaited in order below; this only keeps a rejection that
+    // settles while an earlier result is awaited from being reported as unhandled
+    result.catch(ignore);
+    pending.push(result);
+    index += 1;
+    if (pending.length >= concurrency) {
+      yield await pending.shift();
+    }
+  }
+  while (pending.length) {
+    yield await pending.shift();
+  }
+}
+
+async function* selectManyIterator<T, TOut>(
+  source: AsyncIterable<T>,
+  selector: (
+    element: T,
+    index: number
+  ) => Awaitable<AsyncIterable<TOut> | Iterable<Awaitable<TOut>>>
+): AsyncIterableIterator<TOut> {
+  let index = 0;
+  for await (const value of source) {
+    for await (const inner of new AsyncSequence<TOut>(
+      await selector(value, index)
+    )) {
+      yield inner;
+    }
+    index += 1;
+  }
+}
+
+async function* skipWhileIterator<T>(
+  source: AsyncIterable<T>,
+  predicate: (value: T, index: number) => Awaitable<boolean>
+): AsyncIterableIterator<T> {
+  let index = 0;
+  let skipping = true;
+  for await (const value of source) {
+    skipping = skipping && (await predicate(value, index));
+    if (!skipping) {
+      yield value;
+    }
+    index += 1;
+  }
+}
+
+async function* takeIterator<T>(
+  source: AsyncIterable<T>,
+  amount: number
+): AsyncIterableIterator<T> {
+  if (amount <= 0) {
+    return;
+  }
+  let taken = 0;
+  for await (const value of source) {
+    yield value;
+    taken += 1;
+    if (taken >= amount) {
+      return;
+    }
+  }
+}
+
+async function* takeWhileIterator<T>(
+  source: AsyncIterable<T>,
+  predicate: (value: T, index: number) => Awaitable<boolean>
+): AsyncIterableIterator<T> {
+  let index = 0;
+  for await (const value of source) {
+    if (!(await predicate(value, index))) {
+      return;
+    }
+    yield value;
+    index += 1;
+  }
+}
+
+async function* whereIterator<T>(
+  source: AsyncIterable<T>,
+  predicate: (value: T, index: number) => Awaitable<boolean>
+): AsyncIterableIterator<T> {
+  let index = 0;
+  for await (const value of source) {
+    if (await predicate(value, index)) {
+      yield value;
+    }
+    index += 1;
+  }
+}
+
+async function* zipIterator<T, U, TOut>(
+  first: AsyncIterable<T>,
+  second: AsyncIterable<U>,
+  result: (first: T, second: U) => Awaitable<TOut>
+): AsyncIterableIterator<TOut> {
+  const other = second[Symbol.asyncIterator]();
+  for await (const value of first) {
+    const next = await other.next();
+    if (next.done) {
+      return;
+    }
+    yield await result(value, next.value);
+  }
+}
+
+export default AsyncSequence;
@@ -0,0 +1,92 @@
+import test from 'ava';
+
+import { readCsv, writeCsv } from './csv';
+import { ArgumentError } from './errors';
+
+test('Reading quoted fields', t => {
+  const text = 'name,quote\r\n"Smith, J","He said ""hi""\nand left"\r\n\r\nDoe,\n';
+  t.deepEqual(readCsv(text), [
+    { name: 'Smith, J', quote: 'He said "hi"\nand left' },
+    { name: 'Doe', quote: '' }
+  ]);
+  t.deepEqual(readCsv('\uFEFFa\n1'), [{ a: '1' }]);
+  t.deepEqual(readCsv('a,b\n1'), [{ a: '1', b: '' }]);
+  t.deepEqual(readCsv('a\n""'), [{ a: '' }]);
+  t.deepEqual(readCsv(''), []);
+});
+
+test('Reading options', t => {
+  t.deepEqual(readCsv('1;2\r3;4', { delimiter: ';', header: false }), [
+    ['1', '2'],
+    ['3', '4']
+  ]);
+  t.deepEqual(
+    readCsv("x|'a|b'", {
+      columns: ['id', 'tag'],
+      delimiter: '|',
+      header: false,
+      quote: "'"
+    }),
+    [{ id: 'x', tag: 'a|b' }]
+  );
+  t.deepEqual(
+    readCsv('a,b\n1,2', { columns: ['x', 'y'], converters: { y: Number } }),
+    [{ x: '1', y: 2 }]
+  );
+  t.deepEqual(readCsv('1,2', { converters: { 1: Number }, header: false }), [
+    ['1', 2]
+  ]);
+  t.throws(() => readCsv('a\n"open'), ArgumentError);
+  t.throws(() => readCsv('a', { delimiter: '' }), ArgumentError);
+  t.throws(() => readCsv('a', { delimiter: '"' }), ArgumentError);
+});
+
+test('Reading headers named like Object properties', t => {
+  const [row] = readCsv(
+    'toString,constructor,__proto__,hasOwnProperty\n1,2,3,4'
+  );
+  t.deepEqual(Object.keys(row), [
+    'toString',
+    'constructor',
+    '__proto__',
+    'hasOwnProperty'
+  ]);
+  t.is(row.toString, '1');
+  t.is(row.constructor, '2');
+  t.is(row.__proto__, '3');
+  t.is(row.hasOwnProperty, '4');
+  t.is(Object.getPrototypeOf(row), Object.prototype);
+  t.deepEqual(
+    readCsv('a,toString\n1,2', { converters: { a: Number } }).map(x => [
+      x.a,
+      x.toString
+    ]),
+    [[1, '2']]
+  );
+});
+
+test('Writing', t => {
+  const rows = [
+    { born: new Date(Date.UTC(2000, 0, 2)), name: 'Doe, J' },
+    { name: 'Say "cheese"', pets: null }
+  ];
+  t.is(
+    writeCsv(rows),
+    'born,name,pets\r\n2000-01-02T00:00:00.000Z,"Doe, J",\r\n,"Say ""cheese""",'
+  );
+  t.is(
+    writeCsv(
+      rows,
+      ['name', { header: 'initial', value: x => x.name[0] }],
+      { delimiter: '\t', header: false, newline: '\n' }
+    ),
+    'Doe, J\tD\n"Say ""cheese"""\tS'
+  );
+  t.is(writeCsv([], ['a', 'b']), 'a,b');
+  t.is(writeCsv([]), '');
+});
+
+test('Round trip', t => {
+  const rows = [{ a: 'x,"y"\r\nz', b: '' }, { a: '', b: ' 1 ' }];
+  t.deepEqual(readCsv(writeCsv(rows)), rows);
+});
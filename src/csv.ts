@@ -0,0 +1,212 @@
+import { ArgumentError } from './errors';
+
+/**
+ * How CSV text is read: the delimiter between fields (a comma unless specified), the quote character
+ * (a double quote unless specified), whether the first record is a header row with the column names (true unless
+ * specified), column names to use instead of those of the header row, and converters from the text of the fields
+ * of the given columns to typed values
+ */
+export interface ICsvReadOptions {
+  columns?: string[];
+  converters?: { [column: string]: (value: string) => any };
+  delimiter?: string;
+  header?: boolean;
+  quote?: string;
+}
+
+/**
+ * How CSV text is written: the delimiter between fields (a comma unless specified), the quote character
+ * (a double quote unless specified), whether to start with a header row (true unless specified),
+ * and the line break between records ('\r\n' unless specified)
+ */
+export interface ICsvWriteOptions {
+  delimiter?: string;
+  header?: boolean;
+  newline?: string;
+  quote?: string;
+}
+
+/**
+ * A column of CSV output, with its header and the function that computes its field from an element
+ */
+export interface ICsvColumn<T> {
+  header: string;
+  value: (element: T) => any;
+}
+
+const checkDelimiters = (delimiter: string, quote: string): void => {
+  if (!delimiter || /[\r\n]/.test(delimiter)) {
+    throw new ArgumentError(
+      'The delimiter must be a non-empty string without line breaks.',
+      'delimiter'
+    );
+  }
+  if (quote.length !== 1 || delimiter.indexOf(quote) >= 0) {
+    throw new ArgumentError(
+      'The quote must be a single character that is not in the delimiter.',
+      'quote'
+    );
+  }
+};
+
+// splits the text into records of fields as described by RFC 4180, skipping blank lines
+const parseRecords = (
+  text: string,
+  delimiter: string,
+  quote: string
+): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let inQuotes = false;
+  const endRecord = () => {
+    record.push(field);
+    if (record.length > 1 || field || quoted) {
+      records.push(record);
+    }
+    record = [];
+    field = '';
+    quoted = false;
+  };
+  // skips the byte order mark that some spreadsheet programs write
+  let i = text.charAt(0) === '\uFEFF' ? 1 : 0;
+  while (i < text.length) {
+    const char = text.charAt(i);
+    if (inQuotes) {
+      if (char !== quote) {
+        field += char;
+        i += 1;
+      } else if (text.charAt(i + 1) === quote) {
+        field += quote;
+        i += 2;
+      } else {
+        inQuotes = false;
+        i += 1;
+      }
+    } else if (char === quote && !field) {
+      inQuotes = quoted = true;
+      i += 1;
+    } else if (text.substr(i, delimiter.length) === delimiter) {
+      record.push(field);
+      field = '';
+      quoted = false;
+      i += delimiter.length;
+    } else if (char === '\r' || char === '\n') {
+      endRecord();
+      i += char === '\r' && text.charAt(i + 1) === '\n' ? 2 : 1;
+    } else {
+      field += char;
+      i += 1;
+    }
+  }
+  if (inQuotes) {
+    throw new ArgumentError('The text ends inside a quoted field.', 'text');
+  }
+  if (record.length || field || quoted) {
+    endRecord();
+  }
+
+  return records;
+};
+
+/**
+ * Reads CSV text into an array of records. Every record is an object with one property for each column,
+ * which holds the text of its field, converted by the converter of the column if there is one, or an empty
+ * string when the record is too short. Without a header row or column names, every record is an array of its fields
+ * and the converters are looked up by column index. Quoted fields may hold delimiters, line breaks and quotes,
+ * which are escaped by doubling them
+ */
+export const readCsv = (text: string, options: ICsvReadOptions = {}): any[] => {
+  const {
+    columns,
+    converters = {},
+    delimiter = ',',
+    header = true,
+    quote = '"'
+  } = options;
+  checkDelimiters(delimiter, quote);
+  const records = parseRecords(text, delimiter, quote);
+  const headerRow = header ? records.shift() : undefined;
+  const names = columns || headerRow;
+  // the column names come from the text, so only own converters are used and the fields are defined
+  // rather than assigned, to keep names such as __proto__ or toString from reaching the prototype
+  const convert = (value: string, column: string | number) =>
+    Object.prototype.hasOwnProperty.call(converters, column)
+      ? converters[column](value)
+      : value;
+
+  return names
+    ? records.map(record =>
+        names.reduce(
+          (result, name, index) =>
+            Object.defineProperty(result, name, {
+              configurable: true,
+              enumerable: true,
+              value: convert(index < record.length ? record[index] : '', name),
+              writable: true
+            }),
+          {}
+        )
+      )
+    : records.map(record => record.map(convert));
+};
+
+const formatField = (value: any, delimiter: string, quote: string): string => {
+  const text =
+    value == null
+      ? ''
+      : value instanceof Date
+      ? value.toISOString()
+      : String(value);
+
+  return text.indexOf(delimiter) >= 0 ||
+    text.indexOf(quote) >= 0 ||
+    /[\r\n]/.test(text)
+    ? `${quote}${text.split(quote).join(quote + quote)}${quote}`
+    : text;
+};
+
+/**
+ * Writes the elements as CSV text, one record for each, with the given columns: property names or columns
+ * with a header and a function computing their field. The columns default to the own enumerable properties
+ * of the elements, in the order they first appear. Null and undefined are written as empty fields,
+ * Dates in ISO 8601 format and every other value as its string, quoted when it has to be
+ */
+export const writeCsv = <T>(
+  elements: T[],
+  columns?: Array<string | ICsvColumn<T>>,
+  options: ICsvWriteOptions = {}
+): string => {
+  const {
+    delimiter = ',',
+    header = true,
+    newline = '\r\n',
+    quote = '"'
+  } = options;
+  checkDelimiters(delimiter, quote);
+  const names = new Set<string>();
+  if (!columns) {
+    elements.forEach(element =>
+      Object.keys(element).forEach(key => names.add(key))
+    );
+  }
+  const fields = (columns || Array.from(names)).map(
+    (column): ICsvColumn<T> =>
+      typeof column === 'string'
+        ? { header: column, value: (element: T) => element[column] }
+        : column
+  );
+  const lines = elements.map(element =>
+    fields
+      .map(x => formatField(x.value(element), delimiter, quote))
+      .join(delimiter)
+  );
+  if (header) {
+    lines.unshift(
+      fields.map(x => formatField(x.header, delimiter, quote)).join(delimiter)
+    );
+  }
+
+  return lines.join(newline);
+};
@@ -0,0 +1,112 @@
+import test from 'ava';
+
+import Dictionary from './dictionary';
+import EqualityComparer from './equality-comparer';
+import { ArgumentError, KeyNotFoundError } from './errors';
+
+test('Add / Get', t => {
+  const ages = new Dictionary<string, number>();
+  ages.add('Bob', 50);
+  ages.add('Alice', 25);
+  t.is(ages.get('Bob'), 50);
+  t.is(ages.count(), 2);
+  t.throws(
+    () => ages.add('Bob', 51),
+    ArgumentError
+  );
+  t.throws(
+    () => ages.get('Cathy'),
+    KeyNotFoundError
+  );
+});
+
+test('Set', t => {
+  const ages = new Dictionary<string, number>();
+  ages.set('Bob', 50);
+  ages.set('Bob', 51);
+  t.is(ages.get('Bob'), 51);
+  t.is(ages.count(), 1);
+});
+
+test('TryGetValue / ContainsKey / ContainsValue', t => {
+  const ages = new Dictionary<string, number>();
+  ages.add('Bob', 50);
+  t.deepEqual(ages.tryGetValue('Bob'), [true, 50]);
+  t.deepEqual(ages.tryGetValue('Cathy'), [false, undefined]);
+  t.true(ages.containsKey('Bob'));
+  t.false(ages.containsKey('Cathy'));
+  t.true(ages.containsValue(50));
+  t.false(ages.containsValue(51));
+});
+
+test('Remove / Clear', t => {
+  const ages = new Dictionary<string, number>();
+  ages.add('Bob', 50);
+  ages.add('Alice', 25);
+  t.true(ages.remove('Bob'));
+  t.false(ages.remove('Bob'));
+  t.false(ages.containsKey('Bob'));
+  t.deepEqual(ages.keys.toArray(), ['Alice']);
+  ages.clear();
+  t.is(ages.count(), 0);
+});
+
+test('Keys of any type', t => {
+  const owner = { name: 'Terry' };
+  const pets = new Dictionary<object, string>();
+  pets.add(owner, 'Barley');
+  pets.add({ name: 'Terry' }, 'Boots');
+  t.is(pets.get(owner), 'Barley');
+  t.is(pets.count(), 2);
+
+  const events = new Dictionary<Date, string>(EqualityComparer.DATE);
+  events.add(new Date(2018, 0, 1), 'new year');
+  t.is(events.get(new Date(2018, 0, 1)), 'new year');
+  t.throws(() => events.add(new Date(2018, 0, 1), 'again'), ArgumentError);
+});
+
+test('Symbol keys', t => {
+  const id = Symbol('id');
+  const fields = new Dictionary<symbol, string>();
+  fields.add(id, 'key');
+  t.is(fields.get(id), 'key');
+  const duplicate = t.throws(() => fields.add(id, 'again'), ArgumentError);
+  t.regex(duplicate.message, /Key: Symbol\(id\)/);
+  const missing = t.throws(() => fields.get(Symbol('name')), KeyNotFoundError);
+  t.regex(missing.message, /Key: Symbol\(name\)/);
+});
+
+test('Custom key comparer', t => {
+  const colors = new Dictionary<string, string>(EqualityComparer.IGNORE_CASE);
+  colors.add('Red', '#f00');
+  t.is(colors.get('RED'), '#f00');
+  colors.set('red', '#ff0000');
+  t.deepEqual(colors.keys.toArray(), ['Red']);
+  t.true(colors.remove('rEd'));
+
+  const collisions = new Dictionary<number, string>(
+    EqualityComparer.create<number>((x, y) => x === y)
+  );
+  collisions.add(1, 'one');
+  collisions.add(2, 'two');
+  t.true(collisions.remove(1));
+  t.is(collisions.get(2), 'two');
+});
+
+test('Query operators', t => {
+  const ages = new Dictionary<string, number>();
+  ages.add('Cathy', 15);
+  ages.add('Alice', 25);
+  ages.add('Bob', 50);
+  t.deepEqual(
+    ages
+      .where(x => x.Value > 20)
+      .select(x => x.Key)
+      .toArray(),
+    ['Alice', 'Bob']
+  );
+  t.is(ages.sum(x => x.Value), 90);
+  t.is(ages.count(x => x.Value > 20), 2);
+  t.deepEqual(ages.values.toArray(), [15, 25, 50]);
+  t.deepEqual([...ages].map(x => x.Key), ['Cathy', 'Alice', 'Bob']);
+});
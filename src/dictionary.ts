@@ -0,0 +1,6 @@
+import { Dictionary, IKeyValuePair } from './sequence';
+
+// Dictionary lives with Sequence, which it extends and which creates it in toDictionary,
+// so that either module can be loaded first; modules of this package import it from './sequence'
+export { IKeyValuePair };
+export default Dictionary;
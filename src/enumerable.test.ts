@@ -1,6 +1,11 @@
 import test from 'ava';
 
 import Enumerable from './enumerable';
+import {
+  ArgumentError,
+  ArgumentNullError,
+  ArgumentOutOfRangeError
+} from './errors';
 
 test('Range', t => {
   t.deepEqual(
@@ -18,3 +23,159 @@ test('Repeat', t => {
   t.is(test.elementAt(1), str);
   t.is(test.elementAt(2), str);
 });
+
+test('From', t => {
+  t.deepEqual(Enumerable.from(new Set([1, 2, 2, 3])).toArray(), [1, 2, 3]);
+  t.deepEqual(
+    Enumerable.from(new Map([['a', 1], ['b', 2]]))
+      .select(([key, value]) => `${key}=${value}`)
+      .toArray(),
+    ['a=1', 'b=2']
+  );
+  t.deepEqual(Enumerable.from('abc').toArray(), ['a', 'b', 'c']);
+  t.deepEqual(Enumerable.from({ length: 2, 0: 'x', 1: 'y' }).toArray(), [
+    'x',
+    'y'
+  ]);
+  t.deepEqual(Enumerable.from({ a: 1, b: 2 }).toArray(), [['a', 1], ['b', 2]]);
+
+  function* evens(): IterableIterator<number> {
+    yield 2;
+    yield 4;
+  }
+  t.is(Enumerable.from(evens()).sum(), 6);
+});
+
+test('Range with step', t => {
+  t.deepEqual(Enumerable.RANGE(0, 4, 5).toArray(), [0, 5, 10, 15]);
+  t.deepEqual(Enumerable.RANGE(10, 3, -2).toArray(), [10, 8, 6]);
+  t.deepEqual(Enumerable.RANGE(0, 3, 0.1).toArray(), [0, 0.1, 0.2]);
+  t.throws(() => Enumerable.RANGE(0, -1), ArgumentOutOfRangeError);
+});
+
+test('Date range', t => {
+  const days = Enumerable.DATE_RANGE(
+    new Date(2018, 0, 30),
+    new Date(2018, 1, 2)
+  );
+  t.deepEqual(days.select(d => d.getDate()).toArray(), [30, 31, 1, 2]);
+  const hour = 60 * 60 * 1000;
+  t.deepEqual(
+    Enumerable.DATE_RANGE(
+      new Date(2018, 0, 1, 12),
+      new Date(2018, 0, 1, 7),
+      -2 * hour
+    )
+      .select(d => d.getHours())
+      .toArray(),
+    [12, 10, 8]
+  );
+  t.deepEqual(
+    Enumerable.DATE_RANGE(new Date(2018, 0, 31), new Date(2018, 4, 1), d => {
+      d.setMonth(d.getMonth() + 1, 1);
+
+      return d;
+    })
+      .select(d => d.getMonth())
+      .toArray(),
+    [0, 1, 2, 3, 4]
+  );
+  t.is(
+    Enumerable.DATE_RANGE(new Date(2018, 1, 1), new Date(2018, 0, 1)).count(),
+    0
+  );
+  t.throws(
+    () => Enumerable.DATE_RANGE(new Date(), new Date(), 0),
+    ArgumentOutOfRangeError
+  );
+  t.throws(
+    () =>
+      Enumerable.DATE_RANGE(new Date(2018, 0, 1), new Date(2018, 1, 1), d => d),
+    ArgumentError
+  );
+});
+
+test('Empty', t => {
+  t.is(Enumerable.EMPTY<number>().count(), 0);
+  t.not(Enumerable.EMPTY<number>(), Enumerable.EMPTY<number>());
+});
+
+test('Generate / Unfold', t => {
+  t.deepEqual(
+    Enumerable.GENERATE(1, x => x * 2, x => x > 100).toArray(),
+    [1, 2, 4, 8, 16, 32, 64]
+  );
+  t.deepEqual(
+    Enumerable.GENERATE(1, x => x * 3)
+      .take(4)
+      .toArray(),
+    [1, 3, 9, 27]
+  );
+  const fibonacci = Enumerable.UNFOLD<[number, number], number>(
+    [0, 1],
+    ([a, b]) => [a, [b, a + b]]
+  );
+  t.deepEqual(fibonacci.take(8).toArray(), [0, 1, 1, 2, 3, 5, 8, 13]);
+  t.deepEqual(
+    Enumerable.UNFOLD(10, n => (n > 0 ? [n, n - 4] : null)).toArray(),
+    [10, 6, 2]
+  );
+});
+
+test('Infinite Repeat', t => {
+  const zeros = Enumerable.REPEAT(0);
+  t.deepEqual(zeros.take(3).toArray(), [0, 0, 0]);
+  t.is(zeros.first(), 0);
+  t.deepEqual(
+    Enumerable.ZIP(['a', 'b'], Enumerable.REPEAT(true)).toArray(),
+    [['a', true], ['b', true]]
+  );
+});
+
+test('Concat / Zip', t => {
+  t.deepEqual(
+    Enumerable.CONCAT([1, 2], new Set([3]), Enumerable.RANGE(4, 2)).toArray(),
+    [1, 2, 3, 4, 5]
+  );
+  t.is(Enumerable.CONCAT<number>().count(), 0);
+  t.deepEqual(
+    Enumerable.ZIP([1, 2, 3], 'ab', [true, false, true]).toArray(),
+    [[1, 'a', true], [2, 'b', false]]
+  );
+  t.deepEqual(
+    Enumerable.ZIP([1], [2], [3], [4])
+      .select(x => x.length)
+      .toArray(),
+    [4]
+  );
+  t.is(Enumerable.ZIP().count(), 0);
+
+  let closed = 0;
+  function* letters(): IterableIterator<string> {
+    try {
+      yield 'a';
+      yield 'b';
+    } finally {
+      closed += 1;
+    }
+  }
+  t.deepEqual(Enumerable.ZIP([1], letters()).toArray(), [[1, 'a']]);
+  t.is(closed, 1);
+  t.deepEqual(Enumerable.ZIP(letters(), [1, 2, 3]).first(), ['a', 1]);
+  t.is(closed, 2);
+  t.is(Enumerable.ZIP(letters(), [1, 2, 3]).count(), 2);
+  t.is(closed, 3);
+  t.throws(() => Enumerable.CONCAT([1], null), ArgumentNullError);
+});
+
+test('FromCsv', t => {
+  const rows = Enumerable.fromCsv<{ id: number; name: string }>(
+    'id,name\n1,"Smith, J"\n2,Doe\n',
+    { converters: { id: Number } }
+  );
+  t.deepEqual(rows.where(x => x.id > 1).select(x => x.name).toArray(), [
+    'Doe'
+  ]);
+  t.deepEqual(rows.first(), { id: 1, name: 'Smith, J' });
+  t.throws(() => Enumerable.fromCsv(null), ArgumentNullError);
+});
@@ -1,25 +1,246 @@
+import { ICsvReadOptions, readCsv } from './csv'
+import {
+  ArgumentError,
+  ArgumentNullError,
+  ArgumentOutOfRangeError
+} from './errors'
 import List from './list'
+import Sequence from './sequence'
+
+const DAY = 24 * 60 * 60 * 1000
 
 export default class Enumerable {
   /**
-   * Generates a sequence of integral numbers within a specified range.
+   * Concatenates any number of sequences, lazily, one after the other.
+   */
+  public static CONCAT<T>(...sources: Array<Iterable<T>>): Sequence<T> {
+    sources.forEach((source, index) =>
+      ArgumentNullError.throwIfNull(source, `sources[${index}]`)
+    )
+    return new Sequence<T>(() => concatIterator(sources))
+  }
+
+  /**
+   * Generates a sequence of Dates from start up to and including end, every step milliseconds, or else
+   * every day. The step may be negative, for a descending range, or a function returning the Date after
+   * the given one, for calendar steps such as months. An empty List is returned when the step leads away from end.
+   */
+  public static DATE_RANGE(
+    start: Date,
+    end: Date,
+    step: number | ((current: Date) => Date) = DAY
+  ): List<Date> {
+    ArgumentNullError.throwIfNull(start, 'start')
+    ArgumentNullError.throwIfNull(end, 'end')
+    if (typeof step === 'number' && !(step !== 0 && isFinite(step))) {
+      throw new ArgumentOutOfRangeError(
+        'step',
+        step,
+        'step must be a finite, non-zero number of milliseconds.'
+      )
+    }
+    const next = (current: Date): Date =>
+      typeof step === 'function'
+        ? step(new Date(current.getTime()))
+        : new Date(current.getTime() + step)
+    const descending = next(start) < start
+    let result = new List<Date>()
+    let current = new Date(start.getTime())
+    while (descending ? current >= end : current <= end) {
+      result.add(current)
+      const following = next(current)
+      if (descending ? following >= current : following <= current) {
+        throw new ArgumentError(
+          'step must keep moving the Date in the same direction.',
+          'step'
+        )
+      }
+      current = following
+    }
+    return result
+  }
+
+  /**
+   * Returns an empty List<T>.
    */
-  public static RANGE(start: number, count: number): List<number> {
+  public static EMPTY<T>(): List<T> {
+    return new List<T>()
+  }
+
+  /**
+   * Generates a lazy sequence that starts with the seed and computes each following element from the one
+   * before it, stopping before the first element for which until returns true. Without until the sequence
+   * is infinite, so it must be limited, for instance with take or takeWhile, before it is materialized.
+   */
+  public static GENERATE<T>(
+    seed: T,
+    next: (current: T) => T,
+    until?: (current: T) => boolean
+  ): Sequence<T> {
+    ArgumentNullError.throwIfNull(next, 'next')
+    return new Sequence<T>(() => generateIterator(seed, next, until))
+  }
+
+  /**
+   * Generates a sequence of numbers that starts at start and changes by step, 1 unless specified, count times.
+   * A negative step gives a descending range.
+   */
+  public static RANGE(
+    start: number,
+    count: number,
+    step: number = 1
+  ): List<number> {
+    if (count < 0) {
+      throw new ArgumentOutOfRangeError('count', count, 'count is less than 0.')
+    }
     let result = new List<number>()
-    while (count--) {
-      result.add(start++)
+    for (let i = 0; i < count; i += 1) {
+      result.add(start + i * step)
     }
     return result
   }
 
   /**
-   * Generates a sequence that contains one repeated value.
+   * Generates a sequence that contains one repeated value, count times. Without a count the value is
+   * repeated forever by a lazy sequence, which must be limited, for instance with take, before it is materialized.
    */
-  public static REPEAT<T>(element: T, count: number): List<T> {
+  public static REPEAT<T>(element: T): Sequence<T>
+  public static REPEAT<T>(element: T, count: number): List<T>
+  public static REPEAT<T>(element: T, count?: number): List<T> | Sequence<T> {
+    if (count === undefined) {
+      return Enumerable.GENERATE(element, x => x)
+    }
+    if (count < 0) {
+      throw new ArgumentOutOfRangeError('count', count, 'count is less than 0.')
+    }
     let result = new List<T>()
     while (count--) {
       result.add(element)
     }
     return result
   }
+
+  /**
+   * Generates a lazy sequence from a state: the generator returns the next element together with the
+   * next state, or null or undefined to end the sequence.
+   */
+  public static UNFOLD<TState, T>(
+    seed: TState,
+    generator: (state: TState) => [T, TState]
+  ): Sequence<T> {
+    ArgumentNullError.throwIfNull(generator, 'generator')
+    return new Sequence<T>(() => unfoldIterator(seed, generator))
+  }
+
+  /**
+   * Merges any number of sequences, lazily, into a sequence of tuples of their corresponding elements.
+   * The result is as long as the shortest of the sequences.
+   */
+  public static ZIP<A, B>(
+    first: Iterable<A>,
+    second: Iterable<B>
+  ): Sequence<[A, B]>
+  public static ZIP<A, B, C>(
+    first: Iterable<A>,
+    second: Iterable<B>,
+    third: Iterable<C>
+  ): Sequence<[A, B, C]>
+  public static ZIP<T>(...sources: Array<Iterable<T>>): Sequence<T[]>
+  public static ZIP(...sources: Array<Iterable<any>>): Sequence<any[]> {
+    sources.forEach((source, index) =>
+      ArgumentNullError.throwIfNull(source, `sources[${index}]`)
+    )
+    return new Sequence<any[]>(() => zipIterator(sources))
+  }
+
+  /**
+   * Creates a List<T> from any JavaScript iterable or array-like object. Maps and plain objects
+   * yield their entries as [key, value] pairs and strings yield their characters.
+   */
+  public static from<TKey, TValue>(map: Map<TKey, TValue>): List<[TKey, TValue]>
+  public static from(text: string): List<string>
+  public static from<T>(source: Iterable<T> | ArrayLike<T>): List<T>
+  public static from<T>(source: { [key: string]: T }): List<[string, T]>
+  public static from(source: any): List<any> {
+    ArgumentNullError.throwIfNull(source, 'source')
+    if (
+      typeof source === 'string' ||
+      typeof source[Symbol.iterator] === 'function' ||
+      typeof source.length === 'number'
+    ) {
+      return new List<any>(Array.from(source))
+    }
+    return new List<any>(Object.keys(source).map(key => [key, source[key]]))
+  }
+
+  /**
+   * Creates a List<T> of records from CSV text. Unless the options turn the header row off, every record is
+   * an object with one property for each column, named by the header row, holding the text of its field or the value
+   * returned by the converter of the column. Quoted fields may hold delimiters, line breaks and doubled quotes.
+   */
+  public static fromCsv<T = { [column: string]: any }>(
+    text: string,
+    options?: ICsvReadOptions
+  ): List<T> {
+    ArgumentNullError.throwIfNull(text, 'text')
+    return new List<T>(readCsv(text, options))
+  }
+}
+
+function* concatIterator<T>(
+  sources: Array<Iterable<T>>
+): IterableIterator<T> {
+  for (const source of sources) {
+    yield* source
+  }
+}
+
+function* generateIterator<T>(
+  seed: T,
+  next: (current: T) => T,
+  until?: (current: T) => boolean
+): IterableIterator<T> {
+  let current = seed
+  while (!until || !until(current)) {
+    yield current
+    current = next(current)
+  }
+}
+
+function* unfoldIterator<TState, T>(
+  seed: TState,
+  generator: (state: TState) => [T, TState]
+): IterableIterator<T> {
+  for (let step = generator(seed); step != null; step = generator(step[1])) {
+    yield step[0]
+  }
+}
+
+function* zipIterator(
+  sources: Array<Iterable<any>>
+): IterableIterator<any[]> {
+  const iterators = sources.map(source => source[Symbol.iterator]())
+  // the iterators are closed when one of them ends or the caller stops, except those that ended or threw
+  const finished = iterators.map(() => false)
+  try {
+    while (iterators.length) {
+      const values = []
+      for (let i = 0; i < iterators.length; i += 1) {
+        finished[i] = true
+        const result = iterators[i].next()
+        if (result.done) {
+          return
+        }
+        finished[i] = false
+        values.push(result.value)
+      }
+      yield values
+    }
+  } finally {
+    iterators.forEach((iterator, i) => {
+      if (!finished[i] && iterator.return) {
+        iterator.return()
+      }
+    })
+  }
 }
@@ -0,0 +1,54 @@
+import test from 'ava';
+
+import EqualityComparer from './equality-comparer';
+
+test('Default', t => {
+  const comparer = EqualityComparer.DEFAULT;
+  t.true(comparer.equals(1, 1));
+  t.true(comparer.equals(NaN, NaN));
+  t.false(comparer.equals('1', 1));
+  t.false(comparer.equals({ a: 1 }, { a: 1 }));
+  t.is(comparer.getHashCode('a'), 'a');
+});
+
+test('IgnoreCase', t => {
+  const comparer = EqualityComparer.IGNORE_CASE;
+  t.true(comparer.equals('Apple', 'aPPLE'));
+  t.false(comparer.equals('Apple', 'Apples'));
+  t.false(comparer.equals('Apple', null));
+  t.true(comparer.equals(null, null));
+  t.is(comparer.getHashCode('Apple'), comparer.getHashCode('APPLE'));
+});
+
+test('Date', t => {
+  const comparer = EqualityComparer.DATE;
+  t.true(comparer.equals(new Date(2018, 1, 1), new Date(2018, 1, 1)));
+  t.false(comparer.equals(new Date(2018, 1, 1), new Date(2018, 1, 2)));
+  t.is(
+    comparer.getHashCode(new Date(2018, 1, 1)),
+    comparer.getHashCode(new Date(2018, 1, 1))
+  );
+});
+
+test('Structural', t => {
+  const comparer = EqualityComparer.STRUCTURAL;
+  t.true(comparer.equals({ a: 1, b: [1, 2] }, { b: [1, 2], a: 1 }));
+  t.true(
+    comparer.equals({ at: new Date(2018, 1, 1) }, { at: new Date(2018, 1, 1) })
+  );
+  t.false(comparer.equals({ a: 1 }, { a: 1, b: 2 }));
+  t.false(comparer.equals({ a: 1, b: 2 }, { a: 1 }));
+  t.false(comparer.equals([1, '2'], [1, 2]));
+  t.false(comparer.equals({ a: null }, { a: undefined }));
+  t.is(comparer.getHashCode([1, { x: 2 }]), comparer.getHashCode([1, { x: 2 }]));
+});
+
+test('Create', t => {
+  const byLength = EqualityComparer.create<string>(
+    (x, y) => x.length === y.length,
+    x => x.length
+  );
+  t.true(byLength.equals('abc', 'xyz'));
+  t.is(byLength.getHashCode('abc'), 3);
+  t.is(EqualityComparer.create((x, y) => x === y).getHashCode('abc'), 0);
+});
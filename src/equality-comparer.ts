@@ -0,0 +1,85 @@
+/**
+ * Defines methods to support the comparison of objects for equality.
+ * Values that are equal must produce the same hash code; the hash code is used as a Map key.
+ */
+export interface IEqualityComparer<T> {
+  equals(x: T, y: T): boolean;
+  getHashCode(value: T): any;
+}
+
+const isStructured = (value: any): boolean =>
+  value !== null && typeof value === 'object';
+
+const structuralKey = (value: any): string => {
+  if (value instanceof Date) {
+    return `Date(${value.getTime()})`;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(structuralKey).join(',')}]`;
+  }
+  if (isStructured(value)) {
+    const members = Object.keys(value)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${structuralKey(value[key])}`);
+
+    return `{${members.join(',')}}`;
+  }
+
+  return typeof value === 'string'
+    ? JSON.stringify(value)
+    : `${typeof value}(${String(value)})`;
+};
+
+/**
+ * Built-in equality comparers, and a factory to create custom ones.
+ */
+export default class EqualityComparer {
+  /**
+   * Compares values with the SameValueZero algorithm used by Map and Set: like ===, except that NaN equals NaN.
+   */
+  public static readonly DEFAULT: IEqualityComparer<any> = {
+    equals: (x, y) => x === y || (x !== x && y !== y),
+    getHashCode: x => x
+  };
+
+  /**
+   * Compares strings ignoring case.
+   */
+  public static readonly IGNORE_CASE: IEqualityComparer<string> = {
+    equals: (x, y) =>
+      x === y || (x != null && y != null && x.toLowerCase() === y.toLowerCase()),
+    getHashCode: x => (x == null ? x : x.toLowerCase())
+  };
+
+  /**
+   * Compares Dates by the instant in time they represent.
+   */
+  public static readonly DATE: IEqualityComparer<Date> = {
+    equals: (x, y) =>
+      x === y || (x != null && y != null && x.getTime() === y.getTime()),
+    getHashCode: x => (x == null ? x : x.getTime())
+  };
+
+  /**
+   * Compares values structurally: arrays by their items, Dates by their time and plain objects by their own
+   * enumerable properties, recursively. Other values are compared like DEFAULT. Cyclic structures are not supported.
+   */
+  public static readonly STRUCTURAL: IEqualityComparer<any> = {
+    equals: (x, y) =>
+      isStructured(x) && isStructured(y)
+        ? x === y || structuralKey(x) === structuralKey(y)
+        : EqualityComparer.DEFAULT.equals(x, y),
+    getHashCode: x => (isStructured(x) ? structuralKey(x) : x)
+  };
+
+  /**
+   * Creates an equality comparer from an equals function and a hash function.
+   * When no hash function is given every value shares the same hash code, so lookups fall back to equals.
+   */
+  public static create<T>(
+    equals: (x: T, y: T) => boolean,
+    getHashCode: (value: T) => any = () => 0
+  ): IEqualityComparer<T> {
+    return { equals, getHashCode };
+  }
+}
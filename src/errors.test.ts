@@ -0,0 +1,80 @@
+import test from 'ava';
+
+import Dictionary from './dictionary';
+import Enumerable from './enumerable';
+import {
+  ArgumentError,
+  ArgumentNullError,
+  ArgumentOutOfRangeError,
+  InvalidOperationError,
+  KeyNotFoundError,
+  NotSupportedError
+} from './errors';
+import List from './list';
+
+test('Hierarchy', t => {
+  const error = new ArgumentNullError('predicate');
+  t.true(error instanceof ArgumentNullError);
+  t.true(error instanceof ArgumentError);
+  t.true(error instanceof Error);
+  t.false(error instanceof ArgumentOutOfRangeError);
+  t.is(error.name, 'ArgumentNullError');
+  t.is(error.paramName, 'predicate');
+  t.is(
+    error.message,
+    'Value cannot be null or undefined. Parameter name: predicate'
+  );
+  t.true(new ArgumentOutOfRangeError('index', 5) instanceof ArgumentError);
+  t.true(new InvalidOperationError('Oops.') instanceof Error);
+  t.true(new KeyNotFoundError('a') instanceof Error);
+  t.true(new NotSupportedError('Oops.') instanceof Error);
+});
+
+test('Context', t => {
+  const list = new List<number>([1, 2, 3]);
+
+  const outOfRange = t.throws(() => list.elementAt(5), ArgumentOutOfRangeError);
+  t.is(outOfRange.paramName, 'index');
+  t.is(outOfRange.actualValue, 5);
+  t.is(outOfRange.count, 3);
+  t.regex(outOfRange.message, /Actual value was 5\. Count: 3\./);
+  t.throws(() => list.elementAt(-1), ArgumentOutOfRangeError);
+  t.throws(() => list.removeAt(3), ArgumentOutOfRangeError);
+
+  const notSingle = t.throws(
+    () => list.single(x => x > 1),
+    InvalidOperationError
+  );
+  t.is(notSingle.count, 2);
+
+  const notFound = t.throws(
+    () => new Dictionary<string, number>().get('a'),
+    KeyNotFoundError
+  );
+  t.is(notFound.key, 'a');
+});
+
+test('Null arguments', t => {
+  const list = new List<number>([1, 2, 3]);
+  const error = t.throws(() => list.where(null), ArgumentNullError);
+  t.is(error.paramName, 'predicate');
+  t.throws(() => list.select(undefined), ArgumentNullError);
+  t.throws(() => list.concat(null), ArgumentNullError);
+  t.throws(
+    () => list.join(null, x => x, y => y, (x, y) => x),
+    ArgumentNullError
+  );
+  t.throws(() => list.orderBy(null, (a, b) => a - b), ArgumentNullError);
+  t.throws(() => list.toDictionary(null), ArgumentNullError);
+  t.throws(() => list.zip(list, null), ArgumentNullError);
+  t.false(list.contains(null));
+});
+
+test('Enumerable', t => {
+  t.is(
+    t.throws(() => Enumerable.RANGE(1, -1), ArgumentOutOfRangeError).paramName,
+    'count'
+  );
+  t.throws(() => Enumerable.REPEAT('a', -1), ArgumentOutOfRangeError);
+  t.throws(() => Enumerable.from(null), ArgumentNullError);
+});
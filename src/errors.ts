@@ -0,0 +1,86 @@
+/**
+ * The error that is thrown when a method call is invalid for the object's current state,
+ * for example when asking for the first element of an empty sequence.
+ */
+export class InvalidOperationError extends Error {
+  constructor(message: string, public readonly count?: number) {
+    super(count === undefined ? message : `${message} Count: ${count}`);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'InvalidOperationError';
+  }
+}
+
+/**
+ * The error that is thrown when one of the arguments provided to a method is not valid.
+ */
+export class ArgumentError extends Error {
+  constructor(message: string, public readonly paramName?: string) {
+    super(paramName === undefined ? message : `${message} Parameter name: ${paramName}`);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'ArgumentError';
+  }
+}
+
+/**
+ * The error that is thrown when null or undefined is passed to a method that does not accept it as a valid argument.
+ */
+export class ArgumentNullError extends ArgumentError {
+  /**
+   * Throws an ArgumentNullError if the argument is null or undefined.
+   */
+  public static throwIfNull(argument: any, paramName: string): void {
+    if (argument == null) {
+      throw new ArgumentNullError(paramName);
+    }
+  }
+
+  constructor(paramName: string) {
+    super('Value cannot be null or undefined.', paramName);
+    this.name = 'ArgumentNullError';
+  }
+}
+
+/**
+ * The error that is thrown when the value of an argument is outside the allowable range,
+ * such as an index past the end of a list.
+ */
+export class ArgumentOutOfRangeError extends ArgumentError {
+  constructor(
+    paramName: string,
+    public readonly actualValue: any,
+    message: string = 'Specified argument was out of the range of valid values.',
+    public readonly count?: number
+  ) {
+    super(
+      `${message} Actual value was ${actualValue}.${
+        count === undefined ? '' : ` Count: ${count}.`
+      }`,
+      paramName
+    );
+    this.name = 'ArgumentOutOfRangeError';
+  }
+}
+
+/**
+ * The error that is thrown when the key specified for accessing an element in a collection does not match any key.
+ */
+export class KeyNotFoundError extends Error {
+  constructor(public readonly key: any) {
+    super(
+      `The given key was not present in the dictionary. Key: ${String(key)}`
+    );
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'KeyNotFoundError';
+  }
+}
+
+/**
+ * The error that is thrown when a method is not supported, such as modifying a read-only collection.
+ */
+export class NotSupportedError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'NotSupportedError';
+  }
+}
@@ -0,0 +1,36 @@
+import test from 'ava';
+
+import EqualityComparer from './equality-comparer';
+import HashSet from './hash-set';
+
+test('Add / Has', t => {
+  const set = new HashSet<number>();
+  t.true(set.add(1));
+  t.false(set.add(1));
+  t.true(set.add(NaN));
+  t.false(set.add(NaN));
+  t.true(set.has(1));
+  t.true(set.has(NaN));
+  t.false(set.has(2));
+});
+
+test('Initial values and comparer', t => {
+  const words = new HashSet<string>(EqualityComparer.IGNORE_CASE, ['a', 'B']);
+  t.true(words.has('A'));
+  t.true(words.has('b'));
+  t.false(words.add('b'));
+
+  const points = new HashSet<{ x: number }>(EqualityComparer.STRUCTURAL);
+  t.true(points.add({ x: 1 }));
+  t.false(points.add({ x: 1 }));
+  t.true(points.has({ x: 1 }));
+});
+
+test('Colliding hash codes', t => {
+  const set = new HashSet<number>(EqualityComparer.create((x, y) => x === y));
+  t.true(set.add(1));
+  t.true(set.add(2));
+  t.false(set.add(2));
+  t.true(set.has(1));
+  t.false(set.has(3));
+});
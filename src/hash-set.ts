@@ -0,0 +1,46 @@
+import EqualityComparer, { IEqualityComparer } from './equality-comparer';
+
+/**
+ * A set of values backed by a Map of hash buckets, used by the set operators to run in linear time.
+ * Values are compared with the default equality comparer, or with the one given to the constructor.
+ */
+export default class HashSet<T> {
+  private readonly buckets = new Map<any, T[]>();
+
+  constructor(
+    private readonly comparer: IEqualityComparer<T> = EqualityComparer.DEFAULT,
+    values: Iterable<T> = []
+  ) {
+    for (const value of values) {
+      this.add(value);
+    }
+  }
+
+  /**
+   * Adds the value to the set, returning false when an equal value was already present.
+   */
+  public add(value: T): boolean {
+    const hash = this.comparer.getHashCode(value);
+    const bucket = this.buckets.get(hash);
+    if (!bucket) {
+      this.buckets.set(hash, [value]);
+
+      return true;
+    }
+    if (bucket.some(x => this.comparer.equals(x, value))) {
+      return false;
+    }
+    bucket.push(value);
+
+    return true;
+  }
+
+  /**
+   * Determines whether the set contains a value equal to the given one.
+   */
+  public has(value: T): boolean {
+    const bucket = this.buckets.get(this.comparer.getHashCode(value));
+
+    return !!bucket && bucket.some(x => this.comparer.equals(x, value));
+  }
+}
@@ -1,15 +1,4 @@
-/**
- * Checks if the argument passed is an object
- */
-export const isObj = <T>(x: T): boolean => typeof x === 'object'
-
-/**
- * Determine if two objects are equal
- */
-export const equal = <T, U>(a: T, b: U): boolean =>
-  Object.keys(a).every(
-    key => (isObj(a[key]) ? equal(b[key], a[key]) : b[key] === a[key])
-  )
+import { InvalidOperationError } from './errors'
 
 /**
  * Creates a function that negates the result of the predicate
@@ -42,3 +31,64 @@ export const keyComparer = <T>(
     return 0
   }
 }
+
+/**
+ * Returns the first element with the largest key, or with the smallest one when the sign is negative.
+ * Keys are ordered by the comparer, or else with < and >. Throws like first() when there are no elements
+ */
+export const extremum = <T, TKey>(
+  source: Iterable<T>,
+  keySelector: (value: T, index: number) => TKey,
+  sign: number,
+  comparer: (a: TKey, b: TKey) => number = keyComparer<TKey>(x => x)
+): T => {
+  let found = false
+  let best: T
+  let bestKey: TKey
+  let index = 0
+  for (const value of source) {
+    const key = keySelector(value, index)
+    if (!found || sign * comparer(key, bestKey) > 0) {
+      found = true
+      best = value
+      bestKey = key
+    }
+    index += 1
+  }
+  if (!found) {
+    throw new InvalidOperationError('The source sequence is empty.')
+  }
+
+  return best
+}
+
+/**
+ * Sorts a copy of the elements, keeping the original order of equal elements
+ */
+export const stableSort = <T>(
+  elements: T[],
+  comparer: (a: T, b: T) => number
+): T[] =>
+  elements
+    .map((element, index) => ({ element, index }))
+    .sort((a, b) => comparer(a.element, b.element) || a.index - b.index)
+    .map(x => x.element)
+
+/**
+ * Resolves the typeof name for the primitive wrappers accepted by ofType
+ */
+export const typeNameOf = ($type: any): string => {
+  switch ($type) {
+    case Number:
+      return typeof 0
+    case String:
+      return typeof ''
+    case Boolean:
+      return typeof true
+    case Function:
+      // tslint:disable-next-line: no-function-expression
+      return typeof function () { } // tslint:disable-line no-empty
+    default:
+      return undefined
+  }
+}
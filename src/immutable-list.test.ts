@@ -0,0 +1,82 @@
+import test from 'ava';
+
+import EqualityComparer from './equality-comparer';
+import { ArgumentOutOfRangeError } from './errors';
+import ImmutableList from './immutable-list';
+import List from './list';
+
+test('Create', t => {
+  t.deepEqual(ImmutableList.create([1, 2, 3]).toArray(), [1, 2, 3]);
+  t.deepEqual(ImmutableList.create(new List<string>(['a'])).toArray(), ['a']);
+  t.is(ImmutableList.create().count(), 0);
+});
+
+test('Add / AddRange / Insert return new lists', t => {
+  const empty = ImmutableList.create<number>();
+  const one = empty.add(1);
+  const three = one.addRange([2, 3]);
+  const four = three.insert(0, 0);
+  t.deepEqual(empty.toArray(), []);
+  t.deepEqual(one.toArray(), [1]);
+  t.deepEqual(three.toArray(), [1, 2, 3]);
+  t.deepEqual(four.toArray(), [0, 1, 2, 3]);
+  t.deepEqual(four.insert(4, 4).toArray(), [0, 1, 2, 3, 4]);
+  t.throws(
+    () => four.insert(6, 6),
+    ArgumentOutOfRangeError
+  );
+});
+
+test('Remove / RemoveAt / SetItem / Clear', t => {
+  const words = ImmutableList.create(['a', 'b', 'c', 'b']);
+  t.deepEqual(words.remove('b').toArray(), ['a', 'c', 'b']);
+  t.is(words.remove('x'), words);
+  t.deepEqual(words.remove('C', EqualityComparer.IGNORE_CASE).toArray(), [
+    'a',
+    'b',
+    'b'
+  ]);
+  t.deepEqual(words.removeAt(0).toArray(), ['b', 'c', 'b']);
+  t.deepEqual(words.setItem(1, 'x').toArray(), ['a', 'x', 'c', 'b']);
+  t.is(words.clear().count(), 0);
+  t.deepEqual(words.toArray(), ['a', 'b', 'c', 'b']);
+  t.throws(() => words.removeAt(4), ArgumentOutOfRangeError);
+});
+
+test('ElementAt', t => {
+  const numbers = ImmutableList.create([10, 20, 30]);
+  t.is(numbers.elementAt(1), 20);
+  t.is(numbers.elementAtOrDefault(3), undefined);
+  t.throws(() => numbers.elementAt(-1), ArgumentOutOfRangeError);
+});
+
+test('Stays balanced and consistent across many changes', t => {
+  let list = ImmutableList.create<number>();
+  const expected: number[] = [];
+  for (let i = 0; i < 500; i += 1) {
+    const index = (i * 7) % (expected.length + 1);
+    list = list.insert(index, i);
+    expected.splice(index, 0, i);
+  }
+  for (let i = 0; i < 200; i += 1) {
+    const index = (i * 13) % expected.length;
+    list = list.removeAt(index);
+    expected.splice(index, 1);
+  }
+  t.is(list.count(), expected.length);
+  t.deepEqual(list.toArray(), expected);
+  t.is(list.elementAt(123), expected[123]);
+});
+
+test('Query operators', t => {
+  const numbers = ImmutableList.create([1, 2, 3, 4]);
+  t.deepEqual(
+    numbers
+      .where(x => x % 2 === 0)
+      .select(x => x * 10)
+      .toArray(),
+    [20, 40]
+  );
+  t.is(numbers.sum(), 10);
+  t.deepEqual([...numbers.add(5)], [1, 2, 3, 4, 5]);
+});
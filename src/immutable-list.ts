@@ -0,0 +1,272 @@
+import { IEqualityComparer } from './equality-comparer';
+import { ArgumentOutOfRangeError } from './errors';
+import Sequence from './sequence';
+
+/**
+ * A node of the AVL tree backing an ImmutableList<T>, which keeps the number of elements below it
+ * so that elements can be found by index.
+ */
+interface INode<T> {
+  readonly height: number;
+  readonly left: INode<T>;
+  readonly right: INode<T>;
+  readonly size: number;
+  readonly value: T;
+}
+
+/**
+ * Represents an immutable list of elements. Every method that would modify the list returns a new ImmutableList<T>
+ * instead, which shares all but O(log n) of its nodes with the original, so copies stay cheap.
+ */
+class ImmutableList<T> extends Sequence<T> {
+  /**
+   * Creates an ImmutableList<T> with the elements of the given sequence.
+   */
+  public static create<T>(source: Iterable<T> = []): ImmutableList<T> {
+    return new ImmutableList<T>(buildTree(Array.from(source)));
+  }
+
+  private constructor(private readonly root: INode<T>) {
+    super(() => treeIterator(root));
+  }
+
+  /**
+   * Returns a new list with the element added to the end.
+   */
+  public add(element: T): ImmutableList<T> {
+    return this.insert(this.count(), element);
+  }
+
+  /**
+   * Returns a new list with the elements of the specified collection added to the end.
+   */
+  public addRange(elements: Iterable<T>): ImmutableList<T> {
+    let root = this.root;
+    for (const element of elements) {
+      root = insertAt(root, sizeOf(root), element);
+    }
+
+    return new ImmutableList<T>(root);
+  }
+
+  /**
+   * Returns an empty list.
+   */
+  public clear(): ImmutableList<T> {
+    return new ImmutableList<T>(undefined);
+  }
+
+  /**
+   * Returns the number of elements in the list.
+   */
+  public count(predicate?: (value: T, index: number) => boolean): number {
+    return predicate ? super.count(predicate) : sizeOf(this.root);
+  }
+
+  /**
+   * Returns the element at a specified index in the list.
+   */
+  public elementAt(index: number): T {
+    this.checkIndex(index, this.count() - 1);
+
+    return elementAt(this.root, index);
+  }
+
+  /**
+   * Returns the element at a specified index in the list or a default value if the index is out of range.
+   */
+  public elementAtOrDefault(index: number): T {
+    return index >= 0 && index < this.count()
+      ? elementAt(this.root, index)
+      : undefined;
+  }
+
+  /**
+   * Returns a new list with the element inserted at the specified index.
+   */
+  public insert(index: number, element: T): ImmutableList<T> {
+    this.checkIndex(index, this.count());
+
+    return new ImmutableList<T>(insertAt(this.root, index, element));
+  }
+
+  /**
+   * Returns a new list without the first occurrence of the element, or this list when it does not contain it.
+   * The default equality comparer, or a specified equality comparer, is used to find the element.
+   */
+  public remove(element: T, comparer?: IEqualityComparer<T>): ImmutableList<T> {
+    let index = 0;
+    for (const value of this) {
+      if (comparer ? comparer.equals(value, element) : value === element) {
+        return this.removeAt(index);
+      }
+      index += 1;
+    }
+
+    return this;
+  }
+
+  /**
+   * Returns a new list without the element at the specified index.
+   */
+  public removeAt(index: number): ImmutableList<T> {
+    this.checkIndex(index, this.count() - 1);
+
+    return new ImmutableList<T>(removeAt(this.root, index));
+  }
+
+  /**
+   * Returns a new list with the element at the specified index replaced.
+   */
+  public setItem(index: number, element: T): ImmutableList<T> {
+    this.checkIndex(index, this.count() - 1);
+
+    return new ImmutableList<T>(setAt(this.root, index, element));
+  }
+
+  private checkIndex(index: number, max: number): void {
+    if (index < 0 || index > max) {
+      throw new ArgumentOutOfRangeError(
+        'index',
+        index,
+        'Index was out of range. Must be non-negative and less than the size of the collection.',
+        this.count()
+      );
+    }
+  }
+}
+
+const heightOf = <T>(node: INode<T>): number => (node ? node.height : 0);
+
+const sizeOf = <T>(node: INode<T>): number => (node ? node.size : 0);
+
+const makeNode = <T>(left: INode<T>, value: T, right: INode<T>): INode<T> => ({
+  height: Math.max(heightOf(left), heightOf(right)) + 1,
+  left,
+  right,
+  size: sizeOf(left) + sizeOf(right) + 1,
+  value
+});
+
+// restores the AVL invariant after a single insertion or removal below the node
+const balance = <T>(left: INode<T>, value: T, right: INode<T>): INode<T> => {
+  const difference = heightOf(left) - heightOf(right);
+  if (difference > 1) {
+    return heightOf(left.left) >= heightOf(left.right)
+      ? makeNode(left.left, left.value, makeNode(left.right, value, right))
+      : makeNode(
+          makeNode(left.left, left.value, left.right.left),
+          left.right.value,
+          makeNode(left.right.right, value, right)
+        );
+  }
+  if (difference < -1) {
+    return heightOf(right.right) >= heightOf(right.left)
+      ? makeNode(makeNode(left, value, right.left), right.value, right.right)
+      : makeNode(
+          makeNode(left, value, right.left.left),
+          right.left.value,
+          makeNode(right.left.right, right.value, right.right)
+        );
+  }
+
+  return makeNode(left, value, right);
+};
+
+const buildTree = <T>(
+  elements: T[],
+  start: number = 0,
+  end: number = elements.length
+): INode<T> => {
+  if (start >= end) {
+    return undefined;
+  }
+  const middle = Math.floor((start + end) / 2);
+
+  return makeNode(
+    buildTree(elements, start, middle),
+    elements[middle],
+    buildTree(elements, middle + 1, end)
+  );
+};
+
+const elementAt = <T>(node: INode<T>, index: number): T => {
+  let current = node;
+  let position = index;
+  while (position !== sizeOf(current.left)) {
+    if (position < sizeOf(current.left)) {
+      current = current.left;
+    } else {
+      position -= sizeOf(current.left) + 1;
+      current = current.right;
+    }
+  }
+
+  return current.value;
+};
+
+const insertAt = <T>(node: INode<T>, index: number, value: T): INode<T> => {
+  if (!node) {
+    return makeNode(undefined, value, undefined);
+  }
+  const leftSize = sizeOf(node.left);
+
+  return index <= leftSize
+    ? balance(insertAt(node.left, index, value), node.value, node.right)
+    : balance(
+        node.left,
+        node.value,
+        insertAt(node.right, index - leftSize - 1, value)
+      );
+};
+
+const removeAt = <T>(node: INode<T>, index: number): INode<T> => {
+  const leftSize = sizeOf(node.left);
+  if (index < leftSize) {
+    return balance(removeAt(node.left, index), node.value, node.right);
+  }
+  if (index > leftSize) {
+    return balance(
+      node.left,
+      node.value,
+      removeAt(node.right, index - leftSize - 1)
+    );
+  }
+  if (!node.left || !node.right) {
+    return node.left || node.right;
+  }
+
+  return balance(node.left, elementAt(node.right, 0), removeAt(node.right, 0));
+};
+
+const setAt = <T>(node: INode<T>, index: number, value: T): INode<T> => {
+  const leftSize = sizeOf(node.left);
+  if (index < leftSize) {
+    return makeNode(setAt(node.left, index, value), node.value, node.right);
+  }
+  if (index > leftSize) {
+    return makeNode(
+      node.left,
+      node.value,
+      setAt(node.right, index - leftSize - 1, value)
+    );
+  }
+
+  return makeNode(node.left, value, node.right);
+};
+
+function* treeIterator<T>(node: INode<T>): IterableIterator<T> {
+  const path: Array<INode<T>> = [];
+  let current = node;
+  while (current || path.length > 0) {
+    while (current) {
+      path.push(current);
+      current = current.left;
+    }
+    current = path.pop();
+    yield current.value;
+    current = current.right;
+  }
+}
+
+export default ImmutableList;
@@ -7,5 +7,42 @@
  * Copyright © 2016 Flavio Corpa. All rights reserved.
  *
  */
-export { default as List } from "./list";
+export { default as List, OrderedList, ReadOnlyList } from "./list";
 export { default as Enumerable } from './enumerable';
+export { default as Sequence, Grouping, Lookup } from './sequence';
+export { default as AsyncSequence } from './async-sequence';
+export {
+  default as EqualityComparer,
+  IEqualityComparer
+} from './equality-comparer';
+export { default as Dictionary, IKeyValuePair } from './dictionary';
+export { default as ImmutableList } from './immutable-list';
+export { default as JsonReviver, IJsonReviver } from './json-reviver';
+export { ICsvColumn, ICsvReadOptions, ICsvWriteOptions } from './csv';
+export { IIndexOptions } from './list-index';
+export { default as LiveQuery, LiveValue } from './live-query';
+export {
+  default as ObservableList,
+  IListChangedEvent,
+  ListChangeAction
+} from './observable-list';
+export { default as PagedResult, ICursorPage } from './paged-result';
+export {
+  default as PivotTable,
+  IPivotAggregates,
+  PivotAggregateValues
+} from './pivot-table';
+export { default as TreeNode, ITraversalNode } from './tree-node';
+export {
+  IHistogramBucket,
+  QuantileInterpolation,
+  Summation
+} from './statistics';
+export {
+  ArgumentError,
+  ArgumentNullError,
+  ArgumentOutOfRangeError,
+  InvalidOperationError,
+  KeyNotFoundError,
+  NotSupportedError
+} from './errors';
@@ -0,0 +1,35 @@
+import test from 'ava';
+
+import JsonReviver from './json-reviver';
+import List from './list';
+
+test('DATE', t => {
+  const date = new Date(Date.UTC(2018, 5, 1, 12, 30));
+  const parsed = JSON.parse(
+    JSON.stringify({ at: date, day: '2018-06-01', text: 'T' }),
+    JsonReviver.DATE
+  );
+  t.deepEqual(parsed.at, date);
+  t.is(parsed.day, '2018-06-01');
+  t.true(JsonReviver.DATE('', '2018-06-01T12:30:00+02:00') instanceof Date);
+});
+
+test('LIST', t => {
+  const parsed = JSON.parse('{"items":[1,[2,3]]}', JsonReviver.LIST);
+  t.true(parsed.items instanceof List);
+  t.deepEqual(parsed.items.last().toArray(), [2, 3]);
+});
+
+test('Combine / ForKeys', t => {
+  const reviver = JsonReviver.combine(
+    JsonReviver.DATE,
+    JsonReviver.forKeys(['tags'], JsonReviver.LIST)
+  );
+  const parsed = JSON.parse(
+    '{"at":"2018-06-01T00:00:00.000Z","tags":["a"],"raw":["b"]}',
+    reviver
+  );
+  t.true(parsed.at instanceof Date);
+  t.true(parsed.tags instanceof List);
+  t.true(Array.isArray(parsed.raw));
+});
@@ -0,0 +1,45 @@
+import List from './list';
+
+/**
+ * Transforms the values parsed by JSON.parse, which calls it for every property, innermost first,
+ * with the name of the property, or the index of an array item, and its value.
+ */
+export interface IJsonReviver {
+  (key: string, value: any): any;
+}
+
+// matches the strings written by Date.prototype.toJSON
+const isoDate = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Built-in JSON revivers for the values that JSON.stringify writes in another form, and functions to combine them.
+ */
+export default class JsonReviver {
+  /**
+   * Revives the strings that hold a date in ISO 8601 format, as Dates are written to JSON, into Dates.
+   */
+  public static readonly DATE: IJsonReviver = (key, value) =>
+    typeof value === 'string' && isoDate.test(value) ? new Date(value) : value;
+
+  /**
+   * Revives arrays, as every List<T> is written to JSON, into Lists.
+   */
+  public static readonly LIST: IJsonReviver = (key, value) =>
+    Array.isArray(value) ? new List<any>(value) : value;
+
+  /**
+   * Creates a reviver that applies each of the given revivers in turn, to the value returned by the one before.
+   */
+  public static combine(...revivers: IJsonReviver[]): IJsonReviver {
+    return (key, value) =>
+      revivers.reduce((result, reviver) => reviver(key, result), value);
+  }
+
+  /**
+   * Creates a reviver that applies the given reviver only to the properties with one of the given names.
+   */
+  public static forKeys(keys: string[], reviver: IJsonReviver): IJsonReviver {
+    return (key, value) =>
+      keys.indexOf(key) >= 0 ? reviver(key, value) : value;
+  }
+}
@@ -0,0 +1,46 @@
+import test from 'ava';
+
+import { ArgumentError } from './errors';
+import ListIndex from './list-index';
+
+test('Splice keeps the buckets in list order', t => {
+  const index = new ListIndex<number, boolean>('even', x => x % 2 === 0, {}, [
+    1,
+    2,
+    4
+  ]);
+  const insert = (start: number, elements: number[]) =>
+    index.splice(start, 0, elements, index.check(start, 0, elements));
+  insert(1, [6, 3]);
+  insert(0, [8]);
+  t.deepEqual(index.get(true), [8, 6, 2, 4]);
+  t.deepEqual(index.get(false), [1, 3]);
+  index.splice(1, 2, [], []);
+  t.deepEqual(index.get(true), [8, 2, 4]);
+  t.deepEqual(index.get(false), [3]);
+  index.splice(1, 1, [], []);
+  t.deepEqual(index.get(false), []);
+});
+
+test('Check', t => {
+  const index = new ListIndex<string, string>(
+    'initial',
+    x => x[0],
+    { unique: true },
+    ['a', 'b']
+  );
+  t.deepEqual(index.check(2, 0, ['c']), ['c']);
+  t.deepEqual(index.check(0, 1, ['a']), ['a']);
+  t.throws(() => index.check(0, 1, ['b']), ArgumentError);
+  t.throws(() => index.check(2, 0, ['c', 'c']), /unique index initial/);
+  t.deepEqual(index.get('a'), ['a']);
+
+  const id = Symbol('id');
+  const symbols = new ListIndex<symbol, symbol>(
+    'id',
+    x => x,
+    { unique: true },
+    [id]
+  );
+  t.throws(() => symbols.check(1, 0, [id]), /Key: Symbol\(id\)/);
+});
@@ -0,0 +1,118 @@
+import EqualityComparer, { IEqualityComparer } from './equality-comparer';
+import { ArgumentError } from './errors';
+import HashSet from './hash-set';
+import { Dictionary } from './sequence';
+
+/**
+ * Options of a secondary index of a List<T>: whether two elements may not share a key,
+ * and the equality comparer for the keys, the default one unless specified.
+ */
+export interface IIndexOptions<TKey> {
+  comparer?: IEqualityComparer<TKey>;
+  unique?: boolean;
+}
+
+/**
+ * A secondary index of a List<T>, which finds the elements with a given key without scanning the list.
+ * It keeps the key of every element, by index, and the elements of every key in the order of the list,
+ * and is told about every change to the elements by the list.
+ */
+export default class ListIndex<T, TKey> {
+  private readonly buckets: Dictionary<TKey, T[]>;
+  private readonly comparer: IEqualityComparer<TKey>;
+  private readonly keys: TKey[] = [];
+  private readonly unique: boolean;
+
+  constructor(
+    private readonly name: string,
+    private readonly keySelector: (element: T) => TKey,
+    options: IIndexOptions<TKey>,
+    elements: T[]
+  ) {
+    this.comparer = options.comparer || EqualityComparer.DEFAULT;
+    this.buckets = new Dictionary<TKey, T[]>(this.comparer);
+    this.unique = !!options.unique;
+    this.splice(0, 0, elements, this.check(0, 0, elements));
+  }
+
+  /**
+   * Computes the keys of the elements about to replace deleteCount elements from the start index,
+   * throwing if the index is unique and a key would be shared.
+   */
+  public check(start: number, deleteCount: number, elements: T[]): TKey[] {
+    const keys = elements.map(x => this.keySelector(x));
+    if (this.unique) {
+      const seen = new HashSet<TKey>(this.comparer);
+      keys.forEach(key => {
+        const [found, bucket] = this.buckets.tryGetValue(key);
+        const remaining =
+          (found ? bucket.length : 0) -
+          this.keys
+            .slice(start, start + deleteCount)
+            .filter(x => this.comparer.equals(x, key)).length;
+        if (remaining > 0 || !seen.add(key)) {
+          throw new ArgumentError(
+            `An element with the same key already exists in the unique index ${
+              this.name
+            }. Key: ${String(key)}`
+          );
+        }
+      });
+    }
+
+    return keys;
+  }
+
+  /**
+   * Returns the elements with the key, in the order of the list.
+   */
+  public get(key: TKey): T[] {
+    const [found, bucket] = this.buckets.tryGetValue(key);
+
+    return found ? bucket.slice() : [];
+  }
+
+  /**
+   * Replaces deleteCount elements from the start index with the elements, whose keys were computed by check.
+   */
+  public splice(
+    start: number,
+    deleteCount: number,
+    elements: T[],
+    keys: TKey[]
+  ): void {
+    for (let i = 0; i < deleteCount; i += 1) {
+      const key = this.keys[start];
+      const bucket = this.buckets.get(key);
+      bucket.splice(this.positionInBucket(start, key), 1);
+      if (!bucket.length) {
+        this.buckets.remove(key);
+      }
+      this.keys.splice(start, 1);
+    }
+    elements.forEach((element, i) => {
+      const index = start + i;
+      const key = keys[i];
+      const [found, bucket] = this.buckets.tryGetValue(key);
+      if (found) {
+        bucket.splice(this.positionInBucket(index, key), 0, element);
+      } else {
+        this.buckets.add(key, [element]);
+      }
+      this.keys.splice(index, 0, key);
+    });
+  }
+
+  // counts the elements before the index that share the key, which is quick for the common case of appending
+  private positionInBucket(index: number, key: TKey): number {
+    if (index === this.keys.length) {
+      return this.buckets.get(key).length;
+    }
+    let position = 0;
+    for (let i = 0; i < index; i += 1) {
+      position += this.comparer.equals(this.keys[i], key) ? 1 : 0;
+    }
+
+    return position;
+  }
+}
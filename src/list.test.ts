@@ -1,7 +1,20 @@
 import test from 'ava';
 
+import Enumerable from './enumerable';
+import EqualityComparer from './equality-comparer';
+import {
+  ArgumentError,
+  ArgumentNullError,
+  ArgumentOutOfRangeError,
+  InvalidOperationError,
+  NotSupportedError
+} from './errors';
+import JsonReviver from './json-reviver';
 import List from './list';
 
+// TypeScript 2.9 has no bigint type, so bigints are typed as any
+declare const BigInt: (value: any) => any;
+
 interface IPackage {
   Company: string;
   Weight: number;
@@ -93,6 +106,25 @@ test('AddRange', t => {
   t.deepEqual(list.toArray(), ['hey', 'what\'s', 'up']);
 });
 
+test('AsReadOnly', t => {
+  const list = new List<number>([1, 2]);
+  const readOnly = list.asReadOnly();
+  list.add(3);
+  t.deepEqual(readOnly.toArray(), [1, 2, 3]);
+  t.is(readOnly.where(x => x > 1).count(), 2);
+  t.throws(
+    () => (readOnly as List<number>).add(4),
+    NotSupportedError
+  );
+  t.throws(
+    () => (readOnly as List<number>).createIndex('value', x => x),
+    NotSupportedError
+  );
+  const copy = readOnly.toList();
+  copy.add(4);
+  t.deepEqual(list.toArray(), [1, 2, 3]);
+});
+
 test('Aggregate', t => {
   const sentence = 'the quick brown fox jumps over the lazy dog';
   const reversed = 'dog lazy the over jumps fox brown quick the ';
@@ -139,6 +171,44 @@ test('Average', t => {
   ]);
   t.is(grades.average(), 77.6);
   t.is(people.average(x => x.age), 30);
+  t.is(new List<number>([0, 0, 3]).average(), 1);
+  t.is(people.average(x => (x.age > 20 ? 0 : x.age)), 5);
+  t.is(Enumerable.REPEAT(0.1, 10).average('compensated'), 0.1);
+  t.true(isNaN(new List<number>().average()));
+  t.deepEqual(
+    new List<Date>([new Date(2018, 0, 1), new Date(2018, 0, 3)]).average(
+      x => x
+    ),
+    new Date(2018, 0, 2)
+  );
+});
+
+test('BatchBy', t => {
+  const words = new List<string>(['a', 'bb', 'ccc', 'dddd', 'e', 'ff']);
+  t.deepEqual(
+    words
+      .batchBy((batch, word) => batch.count() < 2)
+      .select(batch => batch.toArray())
+      .toArray(),
+    [['a', 'bb'], ['ccc', 'dddd'], ['e', 'ff']]
+  );
+  t.deepEqual(
+    words
+      .batchBy(5, word => word.length)
+      .select(batch => batch.toArray().join(''))
+      .toArray(),
+    ['abb', 'ccc', 'dddde', 'ff']
+  );
+  t.deepEqual(
+    new List<number>([2, 9, 1])
+      .batchBy(4, x => x)
+      .select(batch => batch.toArray())
+      .toArray(),
+    [[2], [9], [1]]
+  );
+  t.is(new List<string>().batchBy(3, x => x.length).count(), 0);
+  t.throws(() => words.batchBy(0, x => x.length), ArgumentOutOfRangeError);
+  t.throws(() => words.batchBy(3, null), ArgumentNullError);
 });
 
 test('Cast', t => {
@@ -154,6 +224,20 @@ test('Cast', t => {
   t.true(dogs.last().speak === undefined);
 });
 
+test('Chunk', t => {
+  const numbers = Enumerable.RANGE(1, 7);
+  t.deepEqual(
+    numbers
+      .chunk(3)
+      .select(chunk => chunk.toArray())
+      .toArray(),
+    [[1, 2, 3], [4, 5, 6], [7]]
+  );
+  t.is(new List<number>().chunk(3).count(), 0);
+  t.throws(() => numbers.chunk(0), ArgumentOutOfRangeError);
+  t.throws(() => numbers.chunk(1.5), ArgumentOutOfRangeError);
+});
+
 test('Concat', t => {
   const cats = new List<Pet>([
     new Pet({ age: 8, name: 'Barley' }),
@@ -185,6 +269,8 @@ test('Contains', t => {
     'grape'
   ]);
   t.true(fruits.contains('mango'));
+  t.false(fruits.contains('MANGO'));
+  t.true(fruits.contains('MANGO', EqualityComparer.IGNORE_CASE));
 });
 
 test('Count', t => {
@@ -200,6 +286,88 @@ test('Count', t => {
   t.is(fruits.count(x => x.length > 5), 3);
 });
 
+test('CreateIndex / LookupBy', t => {
+  const orders = new List([
+    { customer: 'ann', sku: 'a1' },
+    { customer: 'bob', sku: 'b1' },
+    { customer: 'ann', sku: 'a2' }
+  ]);
+  orders.createIndex('customer', x => x.customer);
+  orders.createIndex('sku', x => x.sku, { unique: true });
+  const skus = (customer: string) =>
+    orders
+      .lookupBy('customer', customer)
+      .select(x => x.sku)
+      .toArray();
+  t.deepEqual(skus('ann'), ['a1', 'a2']);
+  t.deepEqual(skus('eve'), []);
+  t.is(orders.lookupBy('sku', 'b1').single().customer, 'bob');
+
+  orders.insert(1, { customer: 'ann', sku: 'a0' });
+  orders.addRange([
+    { customer: 'eve', sku: 'e1' },
+    { customer: 'ann', sku: 'a3' }
+  ]);
+  orders.add({ customer: 'bob', sku: 'b2' });
+  t.deepEqual(skus('ann'), ['a1', 'a0', 'a2', 'a3']);
+  t.deepEqual(skus('eve'), ['e1']);
+  orders.removeAt(0);
+  t.true(orders.remove(orders.lookupBy('sku', 'e1').single()));
+  t.deepEqual(skus('ann'), ['a0', 'a2', 'a3']);
+  t.deepEqual(skus('eve'), []);
+  t.is(orders.lookupBy('sku', 'a1').count(), 0);
+  t.deepEqual(
+    orders.toArray(),
+    orders.select(x => orders.lookupBy('sku', x.sku).single()).toArray()
+  );
+});
+
+test('Unique indexes', t => {
+  const list = new List([{ id: 1 }, { id: 2 }]);
+  list.createIndex('id', x => x.id, { unique: true });
+  t.throws(() => list.add({ id: 2 }), ArgumentError);
+  t.throws(() => list.insert(0, { id: 1 }), ArgumentError);
+  t.throws(() => list.addRange([{ id: 3 }, { id: 3 }]), ArgumentError);
+  t.is(list.count(), 2);
+  t.is(list.lookupBy('id', 3).count(), 0);
+  list.removeAt(1);
+  list.add({ id: 2 });
+  t.is(list.lookupBy('id', 2).count(), 1);
+
+  const duplicates = new List([{ id: 1 }, { id: 1 }]);
+  t.throws(
+    () => duplicates.createIndex('id', x => x.id, { unique: true }),
+    ArgumentError
+  );
+  t.throws(() => duplicates.lookupBy('id', 1), ArgumentError);
+  duplicates.createIndex('id', x => x.id);
+  t.is(duplicates.lookupBy('id', 1).count(), 2);
+  t.throws(() => duplicates.createIndex('id', x => x.id), ArgumentError);
+  t.true(duplicates.dropIndex('id'));
+  t.false(duplicates.dropIndex('id'));
+  t.throws(() => duplicates.lookupBy('id', 1), ArgumentError);
+});
+
+test('Index key comparers', t => {
+  const people = new List([{ name: 'Ann' }, { name: 'bob' }]);
+  people.createIndex('name', x => x.name, {
+    comparer: EqualityComparer.IGNORE_CASE,
+    unique: true
+  });
+  t.is(people.lookupBy('name', 'ANN').single().name, 'Ann');
+  t.throws(() => people.add({ name: 'BOB' }), ArgumentError);
+});
+
+test('CrossJoin', t => {
+  const sizes = new List<string>(['S', 'M']);
+  const colors = new List<string>(['red', 'blue']);
+  t.deepEqual(
+    sizes.crossJoin(colors, (size, color) => `${size} ${color}`).toArray(),
+    ['S red', 'S blue', 'M red', 'M blue']
+  );
+  t.is(sizes.crossJoin(new List<string>(), (x, y) => x + y).count(), 0);
+});
+
 test('DefaultIfEmpty', t => {
   const pets = new List<Pet>([
     new Pet({ age: 8, name: 'Barley' }),
@@ -233,6 +401,12 @@ test('Distinct', t => {
   ]);
   t.deepEqual(ages.distinct(), new List<number>([21, 46, 55, 17]));
   t.deepEqual(pets.distinct(), expected);
+  t.deepEqual(
+    new List<string>(['a', 'A', 'b', 'B', 'a'])
+      .distinct(EqualityComparer.IGNORE_CASE)
+      .toArray(),
+    ['a', 'b']
+  );
 });
 
 test('DistinctBy', t => {
@@ -250,6 +424,13 @@ test('DistinctBy', t => {
   ]);
 
   t.deepEqual(pets.distinctBy(pet => pet.age), result);
+  t.deepEqual(
+    pets
+      .distinctBy(pet => pet.name.substring(0, 1), EqualityComparer.IGNORE_CASE)
+      .select(pet => pet.name)
+      .toArray(),
+    ['Whiskers', 'Boots', 'Daisy']
+  );
 });
 
 test('ElementAt', t => {
@@ -257,23 +438,51 @@ test('ElementAt', t => {
   t.is(a.elementAt(0), 'hey');
   t.throws(
     () => a.elementAt(4),
-    /ArgumentOutOfRangeException: index is less than 0 or greater than or equal to the number of elements in source./
+    ArgumentOutOfRangeError
   );
 });
 
 test('ElementAtOrDefault', t => {
   const a = new List<string>(['hey', 'hola', 'que', 'tal']);
   t.is(a.elementAtOrDefault(0), 'hey');
-  t.throws(
-    () => a.elementAtOrDefault(4),
-    /ArgumentOutOfRangeException: index is less than 0 or greater than or equal to the number of elements in source./
-  );
+  t.is(a.elementAtOrDefault(4), undefined);
+  t.is(a.elementAtOrDefault(-1), undefined);
+  t.is(new List<number>([0, 1]).elementAtOrDefault(0), 0);
 });
 
 test('Except', t => {
   const numbers1 = new List<number>([2, 2.1, 2.2, 2.3, 2.4, 2.5]);
   const numbers2 = new List<number>([2.2, 2.3]);
   t.deepEqual(numbers1.except(numbers2).toArray(), [2, 2.1, 2.4, 2.5]);
+
+  const dates1 = new List<Date>([new Date(2018, 0, 1), new Date(2018, 0, 2)]);
+  const dates2 = new List<Date>([new Date(2018, 0, 2)]);
+  t.is(dates1.except(dates2, EqualityComparer.DEFAULT).count(), 2);
+  t.deepEqual(dates1.except(dates2).toArray(), [new Date(2018, 0, 1)]);
+  t.deepEqual(dates1.except(dates2, EqualityComparer.DATE).toArray(), [
+    new Date(2018, 0, 1)
+  ]);
+});
+
+test('ExceptBy', t => {
+  const people = new List([
+    { id: 1, name: 'Bob' },
+    { id: 2, name: 'Cathy' },
+    { id: 3, name: 'Alice' }
+  ]);
+  t.deepEqual(
+    people
+      .exceptBy(new List<number>([2]), p => p.id)
+      .select(p => p.name)
+      .toArray(),
+    ['Bob', 'Alice']
+  );
+  t.deepEqual(
+    people
+      .exceptBy(new List<string>(['BOB']), p => p.name, EqualityComparer.IGNORE_CASE)
+      .count(),
+    2
+  );
 });
 
 test('First', t => {
@@ -281,7 +490,7 @@ test('First', t => {
   t.is(new List<number>([1, 2, 3, 4, 5]).first(x => x > 2), 3);
   t.throws(
     () => new List<string>().first(),
-    /InvalidOperationException: The source sequence is empty./
+    InvalidOperationError
   );
 });
 
@@ -290,6 +499,18 @@ test('FirstOrDefault', t => {
   t.is(new List<string>().firstOrDefault(), undefined);
 });
 
+test('Flatten', t => {
+  const nested = new List<any>([1, [2, [3, 4]], 5]);
+  t.deepEqual(
+    nested
+      .flatten(x => (Array.isArray(x) ? x : null))
+      .where(x => !Array.isArray(x))
+      .toArray(),
+    [1, 2, 3, 4, 5]
+  );
+  t.throws(() => nested.flatten(null), ArgumentNullError);
+});
+
 test('ForEach', t => {
   const names = new List<string>(['Bruce', 'Alfred', 'Tim', 'Richard']);
   let test = '';
@@ -297,6 +518,42 @@ test('ForEach', t => {
   t.is(test, 'Bruce 0 Alfred 1 Tim 2 Richard 3 ');
 });
 
+test('FullOuterJoin', t => {
+  const departments = new List([
+    { id: 1, name: 'Sales' },
+    { id: 2, name: 'Legal' }
+  ]);
+  const employees = new List([
+    { name: 'Ann', department: 1 },
+    { name: 'Bob', department: 3 },
+    { name: 'Eve', department: 1 }
+  ]);
+  t.deepEqual(
+    departments
+      .fullOuterJoin(
+        employees,
+        d => d.id,
+        e => e.department,
+        (d, e) => `${d ? d.name : '-'}: ${e ? e.name : '-'}`
+      )
+      .toArray(),
+    ['Sales: Ann', 'Sales: Eve', 'Legal: -', '-: Bob']
+  );
+  t.deepEqual(
+    departments
+      .fullOuterJoin(
+        employees,
+        d => d.id,
+        e => e.department,
+        (d, e) => `${d.name}: ${e.name}`,
+        { id: 0, name: 'None' },
+        { name: 'Nobody', department: 0 }
+      )
+      .toArray(),
+    ['Sales: Ann', 'Sales: Eve', 'Legal: Nobody', 'None: Bob']
+  );
+});
+
 test('GroupBy', t => {
   const pets = new List<Pet>([
     new Pet({ age: 8, name: 'Barley' }),
@@ -304,12 +561,40 @@ test('GroupBy', t => {
     new Pet({ age: 1, name: 'Whiskers' }),
     new Pet({ age: 4, name: 'Daisy' })
   ]);
-  const result = {
-    1: ['Whiskers'],
-    4: ['Boots', 'Daisy'],
-    8: ['Barley']
-  };
-  t.deepEqual(pets.groupBy(pet => pet.age, pet => pet.name), result);
+  const groups = pets.groupBy(pet => pet.age, pet => pet.name);
+  t.deepEqual(groups.keys.toArray(), [8, 4, 1]);
+  t.deepEqual(groups.get(4).toArray(), ['Boots', 'Daisy']);
+  t.is(groups.get(4).key, 4);
+  t.is(groups.get(2).count(), 0);
+  t.is(groups.count(), 3);
+  t.deepEqual(
+    groups.select(group => `${group.key}: ${group.first()}`).toArray(),
+    ['8: Barley', '4: Boots', '1: Whiskers']
+  );
+  t.deepEqual(
+    pets
+      .groupBy(
+        pet => pet.age,
+        pet => pet.name,
+        (age, names) => `${age}: ${names.count()}`
+      )
+      .toArray(),
+    ['8: 1', '4: 2', '1: 1']
+  );
+  const fruits = new List<string>(['apple', 'Avocado', 'banana', 'Blueberry']).groupBy(
+    fruit => fruit.substring(0, 1),
+    fruit => fruit.length,
+    EqualityComparer.IGNORE_CASE
+  );
+  t.deepEqual(fruits.keys.toArray(), ['a', 'b']);
+  t.deepEqual(fruits.get('A').toArray(), [5, 7]);
+  const days = new List<Date>([
+    new Date(2018, 0, 1),
+    new Date(2018, 0, 2),
+    new Date(2018, 0, 1)
+  ]).groupBy(x => x, x => x.getDate(), EqualityComparer.DATE);
+  t.is(days.count(), 2);
+  t.deepEqual(days.get(new Date(2018, 0, 1)).toArray(), [1, 1]);
 });
 
 test('GroupJoin', t => {
@@ -348,6 +633,24 @@ test('GroupJoin', t => {
   );
 });
 
+test('Histogram', t => {
+  const ages = new List<number>([15, 25, 50, 15, 40]);
+  t.deepEqual(ages.histogram(2).select(x => x.count).toArray(), [3, 2]);
+  t.deepEqual(
+    new List<IPet>([
+      { age: 2, name: 'Boots' },
+      { age: 8, name: 'Barley' }
+    ]).histogram(3, pet => pet.age).toArray(),
+    [
+      { count: 1, lowerBound: 2, upperBound: 4 },
+      { count: 0, lowerBound: 4, upperBound: 6 },
+      { count: 1, lowerBound: 6, upperBound: 8 }
+    ]
+  );
+  t.is(new List<number>().histogram(4).count(), 0);
+  t.throws(() => ages.histogram(0), ArgumentOutOfRangeError);
+});
+
 test('IndexOf', t => {
   const fruits = new List<string>([
     'apple',
@@ -382,10 +685,10 @@ test('Insert', t => {
 
   t.is(pets.first(), newPet);
   t.is(pets.last(), newPet);
-  t.throws(() => pets.insert(-1, newPet), /Index is out of range./);
+  t.throws(() => pets.insert(-1, newPet), ArgumentOutOfRangeError);
   t.throws(
     () => pets.insert(pets.count() + 1, newPet),
-    /Index is out of range./
+    ArgumentOutOfRangeError
   );
 });
 
@@ -393,6 +696,41 @@ test('Intersect', t => {
   const id1 = new List<number>([44, 26, 92, 30, 71, 38]);
   const id2 = new List<number>([39, 59, 83, 47, 26, 4, 30]);
   t.is(id1.intersect(id2).sum(x => x), 56);
+
+  const points1 = new List([{ x: 1, y: 2 }, { x: 3, y: 4 }]);
+  const points2 = new List([{ x: 3, y: 4 }]);
+  t.deepEqual(points1.intersect(points2).toArray(), [{ x: 3, y: 4 }]);
+  t.is(points1.intersect(points2, EqualityComparer.DEFAULT).count(), 0);
+  t.deepEqual(points1.except(points2).toArray(), [{ x: 1, y: 2 }]);
+  t.is(points1.union(points2).count(), 2);
+});
+
+test('IntersectBy', t => {
+  const people = new List([
+    { id: 1, name: 'Bob' },
+    { id: 2, name: 'Cathy' },
+    { id: 3, name: 'Alice' },
+    { id: 1, name: 'Bobby' }
+  ]);
+  t.deepEqual(
+    people
+      .intersectBy(new List<number>([1, 3]), p => p.id)
+      .select(p => p.name)
+      .toArray(),
+    ['Bob', 'Alice', 'Bobby']
+  );
+});
+
+test('Iterable', t => {
+  const list = new List<number>([1, 2, 3]);
+  const visited: number[] = [];
+  for (const x of list) {
+    visited.push(x);
+  }
+  t.deepEqual(visited, [1, 2, 3]);
+  t.deepEqual([...list], [1, 2, 3]);
+  t.deepEqual(Array.from(list), [1, 2, 3]);
+  t.is(Math.max(...list), 3);
 });
 
 test('Join', t => {
@@ -429,12 +767,153 @@ test('Join', t => {
   );
 });
 
+test('Join and GroupJoin match a nested loop', t => {
+  // keys repeat and only partly overlap, so there are duplicate and missing matches on both sides
+  const orders = Enumerable.RANGE(0, 300).select(i => ({
+    customer: `C${(i * 7) % 40}`,
+    id: i
+  }));
+  const customers = Enumerable.RANGE(0, 60).select(i => ({
+    code: `c${i % 45}`,
+    id: i
+  }));
+  const ignoreCase = EqualityComparer.IGNORE_CASE;
+  const expectedJoin: string[] = [];
+  const expectedGroups: string[] = [];
+  orders.forEach(o => {
+    const matches = customers.where(c =>
+      ignoreCase.equals(o.customer, c.code)
+    );
+    matches.forEach(c => expectedJoin.push(`${o.id}-${c.id}`));
+    expectedGroups.push(`${o.id}:${matches.select(c => c.id).toArray()}`);
+  });
+
+  t.deepEqual(
+    orders
+      .join(
+        customers,
+        o => o.customer,
+        c => c.code,
+        (o, c) => `${o.id}-${c.id}`,
+        ignoreCase
+      )
+      .toArray(),
+    expectedJoin
+  );
+  t.deepEqual(
+    orders
+      .groupJoin(
+        customers,
+        o => o.customer,
+        c => c.code,
+        (o, cs) => `${o.id}:${cs.select(c => c.id).toArray()}`,
+        ignoreCase
+      )
+      .toArray(),
+    expectedGroups
+  );
+  t.deepEqual(
+    orders
+      .asSequence()
+      .join(
+        customers,
+        o => o.customer,
+        c => c.code,
+        (o, c) => `${o.id}-${c.id}`,
+        ignoreCase
+      )
+      .toArray(),
+    expectedJoin
+  );
+});
+
+test('JoinWithComparer', t => {
+  const customers = new List([
+    { name: 'Ann', country: 'es' },
+    { name: 'Bob', country: 'FR' }
+  ]);
+  const offices = new List([
+    { city: 'Madrid', country: 'ES' },
+    { city: 'Paris', country: 'fr' },
+    { city: 'Lyon', country: 'FR' }
+  ]);
+  t.deepEqual(
+    customers
+      .join(
+        offices,
+        c => c.country,
+        o => o.country,
+        (c, o) => `${c.name} - ${o.city}`,
+        EqualityComparer.IGNORE_CASE
+      )
+      .toArray(),
+    ['Ann - Madrid', 'Bob - Paris', 'Bob - Lyon']
+  );
+  t.deepEqual(
+    customers
+      .groupJoin(
+        offices,
+        c => c.country,
+        o => o.country,
+        (c, os) => `${c.name}: ${os.count()}`,
+        EqualityComparer.IGNORE_CASE
+      )
+      .toArray(),
+    ['Ann: 1', 'Bob: 2']
+  );
+});
+
+test('JoinWithCompositeKeys', t => {
+  const orders = new List([
+    { id: 1, region: 'EU', year: 2017 },
+    { id: 2, region: 'US', year: 2018 },
+    { id: 3, region: 'EU', year: 2018 }
+  ]);
+  const targets = new List([
+    { region: 'EU', year: 2018, amount: 100 },
+    { region: 'US', year: 2018, amount: 200 }
+  ]);
+  t.deepEqual(
+    orders
+      .join(
+        targets,
+        o => [o.region, o.year],
+        x => [x.region, x.year],
+        (o, x) => `${o.id}: ${x.amount}`
+      )
+      .toArray(),
+    ['2: 200', '3: 100']
+  );
+  t.deepEqual(
+    orders
+      .leftJoin(
+        targets,
+        o => ({ region: o.region, year: o.year }),
+        x => ({ year: x.year, region: x.region }),
+        (o, x) => (x ? x.amount : 0)
+      )
+      .toArray(),
+    [0, 200, 100]
+  );
+  t.deepEqual(
+    orders
+      .groupJoin(
+        targets,
+        o => o.year,
+        x => x.year,
+        (o, xs) => xs.count()
+      )
+      .toArray(),
+    [0, 2, 2]
+  );
+});
+
 test('Last', t => {
   t.is(new List<string>(['hey', 'hola', 'que', 'tal']).last(), 'tal');
   t.is(new List<number>([1, 2, 3, 4, 5]).last(x => x > 2), 5);
   t.throws(
     () => new List<string>().last(),
-    /InvalidOperationException: The source sequence is empty./
+    InvalidOperationError
   );
 });
 
@@ -443,6 +922,45 @@ test('LastOrDefault', t => {
   t.is(new List<string>().lastOrDefault(), undefined);
 });
 
+test('LeftJoin', t => {
+  const departments = new List([
+    { id: 1, name: 'Sales' },
+    { id: 2, name: 'Legal' }
+  ]);
+  const employees = new List([
+    { name: 'Ann', department: 1 },
+    { name: 'Bob', department: 3 },
+    { name: 'Eve', department: 1 }
+  ]);
+  t.deepEqual(
+    departments
+      .leftJoin(
+        employees,
+        d => d.id,
+        e => e.department,
+        (d, e) => `${d.name}: ${e ? e.name : '-'}`
+      )
+      .toArray(),
+    ['Sales: Ann', 'Sales: Eve', 'Legal: -']
+  );
+  t.deepEqual(
+    departments
+      .leftJoin(
+        employees,
+        d => d.id,
+        e => e.department,
+        (d, e) => `${d.name}: ${e.name}`,
+        { name: 'Nobody', department: 0 }
+      )
+      .toArray(),
+    ['Sales: Ann', 'Sales: Eve', 'Legal: Nobody']
+  );
+  t.throws(
+    () => departments.leftJoin(null, d => d.id, e => e, (d, e) => d),
+    ArgumentNullError
+  );
+});
+
 test('Max', t => {
   const people = new List<IPerson>([
     { age: 15, name: 'Cathy' },
@@ -451,6 +969,48 @@ test('Max', t => {
   ]);
   t.is(people.max(x => x.age), 50);
   t.is(new List<number>([1, 2, 3, 4, 5]).max(), 5);
+  t.is(Enumerable.RANGE(0, 500000).max(), 499999);
+  t.is(people.max(x => x.name), 'Cathy');
+  t.is(
+    people.max(x => x.name, (a, b) => a.length - b.length),
+    'Cathy'
+  );
+  t.deepEqual(
+    new List<Date>([new Date(2018, 5, 1), new Date(2019, 0, 1)]).max(),
+    new Date(2019, 0, 1)
+  );
+  t.throws(() => new List<number>().max(), InvalidOperationError);
+});
+
+test('MaxBy', t => {
+  const products = new List<IProduct>([
+    { code: 9, name: 'apple' },
+    { code: 4, name: 'orange' },
+    { code: 9, name: 'lemon' }
+  ]);
+  t.is(products.maxBy(x => x.code).name, 'apple');
+  t.is(products.maxBy(x => x.name).name, 'orange');
+  t.is(
+    products.maxBy(x => x.name, (a, b) => b.localeCompare(a)).name,
+    'apple'
+  );
+  t.throws(
+    () => new List<IProduct>().maxBy(x => x.code),
+    InvalidOperationError
+  );
+});
+
+test('Median', t => {
+  t.is(new List<number>([5, 1, 3]).median(), 3);
+  t.is(new List<number>([5, 1, 3, 2]).median(), 2.5);
+  t.is(
+    new List<IPet>([
+      { age: 8, name: 'Barley' },
+      { age: 4, name: 'Boots' }
+    ]).median(pet => pet.age),
+    6
+  );
+  t.true(isNaN(new List<number>().median()));
 });
 
 test('Min', t => {
@@ -461,6 +1021,38 @@ test('Min', t => {
   ]);
   t.is(people.min(x => x.age), 15);
   t.is(new List<number>([1, 2, 3, 4, 5]).min(), 1);
+  t.is(Enumerable.RANGE(0, 500000).min(x => -x), -499999);
+  t.is(new List<string>(['pear', 'fig', 'kiwi']).min(), 'fig');
+  t.is(
+    new List<string>(['pear', 'fig', 'kiwi']).min(x => x, (a, b) =>
+      b.localeCompare(a)
+    ),
+    'pear'
+  );
+  t.throws(() => new List<number>().min(x => x), InvalidOperationError);
+});
+
+test('MinBy', t => {
+  const products = new List<IProduct>([
+    { code: 9, name: 'apple' },
+    { code: 4, name: 'orange' },
+    { code: 4, name: 'lemon' }
+  ]);
+  t.is(products.minBy(x => x.code).name, 'orange');
+  t.is(products.minBy(x => x.name.length).name, 'apple');
+  t.throws(
+    () => new List<IProduct>().minBy(x => x.code),
+    InvalidOperationError
+  );
+});
+
+test('Mode', t => {
+  t.is(new List<number>([1, 2, 2, 3, 3]).mode(), 2);
+  t.is(
+    new List<string>(['a', 'bb', 'cc', 'd', 'ee']).mode(word => word.length),
+    2
+  );
+  t.true(isNaN(new List<number>().mode()));
 });
 
 test('OfType', t => {
@@ -598,6 +1190,186 @@ test('ThenByDescending', t => {
   );
 });
 
+test('ThenBy with comparer', t => {
+  const words = new List<string>(['b', 'B', 'a', 'A', 'c']);
+  t.deepEqual(
+    words
+      .orderBy(w => w.toLowerCase())
+      .thenBy(w => w, (a, b) => Number(a < 'a') - Number(b < 'a'))
+      .toArray(),
+    ['a', 'A', 'b', 'B', 'c']
+  );
+  t.deepEqual(
+    words
+      .orderByDescending(w => w.toLowerCase())
+      .thenByDescending(w => w, (a, b) => (a < b ? 1 : a > b ? -1 : 0))
+      .toArray(),
+    ['c', 'b', 'B', 'a', 'A']
+  );
+  const ordered = words.orderBy(w => w);
+  t.throws(() => ordered.thenBy(null), ArgumentNullError);
+  t.throws(() => ordered.thenByDescending(null), ArgumentNullError);
+});
+
+test('OrderBy leaves the source untouched and is stable', t => {
+  const source = new List<{ key: number; name: string }>([
+    { key: 2, name: 'a' },
+    { key: 1, name: 'b' },
+    { key: 2, name: 'c' },
+    { key: 1, name: 'd' }
+  ]);
+  const ordered = source.orderBy(x => x.key);
+  t.deepEqual(ordered.select(x => x.name).toArray(), ['b', 'd', 'a', 'c']);
+  t.deepEqual(
+    ordered
+      .thenByDescending(x => x.name)
+      .select(x => x.name)
+      .toArray(),
+    ['d', 'b', 'c', 'a']
+  );
+  t.deepEqual(source.select(x => x.name).toArray(), ['a', 'b', 'c', 'd']);
+});
+
+test('OrderBy is deferred', t => {
+  let comparisons = 0;
+  const numbers = new List<number>([3, 1, 2]);
+  const ordered = numbers
+    .orderBy(x => x, (a, b) => {
+      comparisons += 1;
+
+      return a - b;
+    })
+    .thenBy(x => x);
+  numbers.add(0);
+  t.is(comparisons, 0);
+  t.deepEqual(ordered.toArray(), [1, 2, 3]);
+  t.true(comparisons > 0);
+});
+
+test('OrderBy snapshots the source and ThenBy keeps added elements', t => {
+  const numbers = new List<number>([3, 1, 2]);
+  const ordered = numbers.orderBy(x => x);
+  numbers.add(0);
+  t.deepEqual(ordered.toArray(), [1, 2, 3]);
+  ordered.add(-5);
+  t.deepEqual(ordered.toArray(), [1, 2, 3, -5]);
+  t.deepEqual(ordered.thenBy(x => x).toArray(), [-5, 1, 2, 3]);
+  t.deepEqual(ordered.thenByDescending(x => x).toArray(), [-5, 1, 2, 3]);
+  t.deepEqual(numbers.toArray(), [3, 1, 2, 0]);
+});
+
+test('PageAfter', t => {
+  const list = Enumerable.RANGE(1, 7).select(id => ({ id }));
+  const ordered = list.orderBy(x => x.id);
+  const first = ordered.pageAfter(x => x.id, undefined, 3);
+  t.deepEqual(first.items.select(x => x.id).toArray(), [1, 2, 3]);
+  t.true(first.hasNext);
+  t.is(first.nextCursor, 3);
+
+  // elements inserted or removed before the cursor do not shift the next page
+  list.insert(0, { id: 0 });
+  list.removeAt(2);
+  const second = list
+    .orderBy(x => x.id)
+    .pageAfter(x => x.id, first.nextCursor, 3);
+  t.deepEqual(second.items.select(x => x.id).toArray(), [4, 5, 6]);
+  const last = list
+    .orderBy(x => x.id)
+    .pageAfter(x => x.id, second.nextCursor, 3);
+  t.deepEqual(last.items.select(x => x.id).toArray(), [7]);
+  t.false(last.hasNext);
+  const none = list.orderBy(x => x.id).pageAfter(x => x.id, 7, 3);
+  t.is(none.items.count(), 0);
+  t.is(none.nextCursor, 7);
+
+  const descending = list
+    .orderByDescending(x => x.id)
+    .pageAfter(x => x.id, 5, 2);
+  t.deepEqual(descending.items.select(x => x.id).toArray(), [4, 3]);
+  t.deepEqual(
+    list
+      .orderBy(x => -x.id)
+      .pageAfter(x => -x.id, -5, 2)
+      .items.select(x => x.id)
+      .toArray(),
+    [4, 3]
+  );
+  t.throws(() => ordered.pageAfter(x => x.id, 1, 0), ArgumentOutOfRangeError);
+  t.throws(() => ordered.pageAfter(null, 1, 1), ArgumentNullError);
+});
+
+test('Paginate', t => {
+  const list = Enumerable.RANGE(1, 7);
+  const page = list.paginate(1, 3);
+  t.deepEqual(page.items.toArray(), [4, 5, 6]);
+  t.is(page.pageIndex, 1);
+  t.is(page.pageSize, 3);
+  t.is(page.totalCount, 7);
+  t.is(page.pageCount, 3);
+  t.true(page.hasNext);
+  t.true(page.hasPrevious);
+  t.deepEqual(list.paginate(5, 3).items.toArray(), []);
+  t.is(new List<number>().paginate(0, 10).pageCount, 0);
+  t.throws(() => list.paginate(-1, 3), ArgumentOutOfRangeError);
+  t.throws(() => list.paginate(0, 0), ArgumentOutOfRangeError);
+  t.throws(() => list.paginate(0.5, 3), ArgumentOutOfRangeError);
+});
+
+test('Pairwise', t => {
+  const balances = new List<number>([10, 15, 12]);
+  t.deepEqual(balances.pairwise().toArray(), [[10, 15], [15, 12]]);
+  t.deepEqual(balances.pairwise((a, b) => b - a).toArray(), [5, -3]);
+  t.is(new List<number>([1]).pairwise().count(), 0);
+});
+
+test('Percentile / Quantile', t => {
+  const scores = new List<number>([40, 10, 30, 20]);
+  t.is(scores.percentile(50), 25);
+  t.is(scores.percentile(25, 'lower'), 10);
+  t.is(scores.quantile(0.75), 32.5);
+  t.is(scores.quantile(0.75, 'higher'), 40);
+  t.is(scores.quantile(0.5, x => x / 10, 'midpoint'), 2.5);
+  t.is(scores.percentile(100, x => -x), -10);
+  t.true(isNaN(new List<number>().percentile(90)));
+  t.throws(() => scores.percentile(101), ArgumentOutOfRangeError);
+  t.throws(() => scores.quantile(-0.1), ArgumentOutOfRangeError);
+});
+
+test('Pivot', t => {
+  const sales = new List([
+    { amount: 10, quarter: 'Q1', region: 'North' },
+    { amount: 20, quarter: 'Q2', region: 'North' },
+    { amount: 5, quarter: 'Q1', region: 'South' },
+    { amount: 7, quarter: 'Q1', region: 'North' }
+  ]);
+  const table = sales.pivot(
+    x => x.region,
+    x => x.quarter,
+    g => g.sum(x => x.amount),
+    0
+  );
+  t.deepEqual(table.rowKeys.toArray(), ['North', 'South']);
+  t.deepEqual(table.columnKeys.toArray(), ['Q1', 'Q2']);
+  t.deepEqual(table.values, [[17, 20], [5, 0]]);
+  t.is(table.get('South', 'Q1'), 5);
+  t.deepEqual(table.toList('region').toArray(), [
+    { Q1: 17, Q2: 20, region: 'North' },
+    { Q1: 5, Q2: 0, region: 'South' }
+  ]);
+
+  const stats = sales.pivot(x => x.quarter, x => x.region, {
+    count: g => g.count(),
+    max: g => g.max(x => x.amount)
+  });
+  t.deepEqual(stats.get('Q1', 'North'), { count: 2, max: 10 });
+  t.is(stats.get('Q2', 'South'), undefined);
+  t.is(stats.get('Q2', 'North').max, 20);
+
+  const empty = new List<number>().pivot(x => x, x => x, g => g.count());
+  t.deepEqual(empty.values, []);
+  t.throws(() => sales.pivot(null, x => x.quarter, g => 0), ArgumentNullError);
+});
+
 test('Remove', t => {
   const fruits = new List<string>([
     'apple',
@@ -666,6 +1438,41 @@ test('RemoveAt', t => {
   t.deepEqual(dinosaurs, lessDinosaurs);
 });
 
+test('RightJoin', t => {
+  const departments = new List([
+    { id: 1, name: 'Sales' },
+    { id: 2, name: 'Legal' }
+  ]);
+  const employees = new List([
+    { name: 'Ann', department: 1 },
+    { name: 'Bob', department: 3 },
+    { name: 'Eve', department: 1 }
+  ]);
+  t.deepEqual(
+    departments
+      .rightJoin(
+        employees,
+        d => d.id,
+        e => e.department,
+        (d, e) => `${e.name}: ${d ? d.name : '-'}`
+      )
+      .toArray(),
+    ['Ann: Sales', 'Bob: -', 'Eve: Sales']
+  );
+  t.deepEqual(
+    departments
+      .rightJoin(
+        employees,
+        d => d.id,
+        e => e.department,
+        (d, e) => `${e.name}: ${d.name}`,
+        { id: 0, name: 'None' }
+      )
+      .toArray(),
+    ['Ann: Sales', 'Bob: None', 'Eve: Sales']
+  );
+});
+
 test('Reverse', t => {
   t.deepEqual(new List<number>([1, 2, 3, 4, 5]).reverse().toArray(), [
     5,
@@ -674,6 +1481,65 @@ test('Reverse', t => {
     2,
     1
   ]);
+  const list = new List<number>([1, 2, 3]);
+  list.reverse();
+  t.deepEqual(list.toArray(), [1, 2, 3]);
+});
+
+test('RunningSum / RunningAverage', t => {
+  const deposits = new List<number>([100, -20, 50]);
+  t.deepEqual(deposits.runningSum().toArray(), [100, 80, 130]);
+  t.deepEqual(
+    new List<IPerson>([
+      { age: 10, name: 'Cathy' },
+      { age: 20, name: 'Alice' },
+      { age: 0, name: 'Bob' }
+    ])
+      .runningAverage(x => x.age)
+      .toArray(),
+    [10, 15, 10]
+  );
+  t.is(Enumerable.REPEAT(0.1, 10).runningSum('compensated').last(), 1);
+  t.deepEqual(
+    new List<number>([1, 2])
+      .runningSum('bigint')
+      .select(String)
+      .toArray(),
+    ['1', '3']
+  );
+  t.is(new List<number>().runningAverage().count(), 0);
+});
+
+test('SampleVariance / SampleStandardDeviation', t => {
+  const values = new List<number>([1, 2, 3, 4]);
+  t.true(Math.abs(values.sampleVariance() - 5 / 3) < 1e-12);
+  t.true(
+    Math.abs(values.sampleStandardDeviation(x => x * 2) - Math.sqrt(20 / 3)) <
+      1e-12
+  );
+  t.true(isNaN(new List<number>([1]).sampleVariance()));
+  t.true(isNaN(new List<number>().sampleStandardDeviation()));
+});
+
+test('Scan', t => {
+  const moves = new List<string>(['up', 'up', 'down', 'up']);
+  t.deepEqual(
+    moves
+      .scan((floor, move) => (move === 'up' ? floor + 1 : floor - 1), 0)
+      .toArray(),
+    [1, 2, 1, 2]
+  );
+  t.deepEqual(
+    moves
+      .scan((path, move, index) => `${path}${index}${move[0]}`, '>')
+      .toArray(),
+    ['>0u', '>0u1u', '>0u1u2d', '>0u1u2d3u']
+  );
+  t.is(
+    moves.scan((count, move) => count + move.length, 0).last(),
+    moves.aggregate((count, move) => count + move.length, 0)
+  );
+  t.is(new List<number>().scan((a, b) => a + b, 0).count(), 0);
 });
 
 test('Select', t => {
@@ -723,6 +1589,14 @@ test('SequenceEqual', t => {
 
   t.true(pets1.sequenceEqual(pets2));
   t.false(pets1.sequenceEqual(pets3));
+  t.false(pets3.sequenceEqual(pets1));
+  t.true(new List<number>([0, 0]).sequenceEqual(new List<number>([0, 0])));
+  t.true(
+    new List<string>(['a', 'B']).sequenceEqual(
+      new List<string>(['A', 'b']),
+      EqualityComparer.IGNORE_CASE
+    )
+  );
 });
 
 test('Single', t => {
@@ -733,20 +1607,20 @@ test('Single', t => {
   t.is(fruits2.single(), 'orange');
   t.throws(
     () => fruits1.single(),
-    /The collection does not contain exactly one element./
+    InvalidOperationError
   );
   t.throws(
     () => fruits3.single(),
-    /The collection does not contain exactly one element./
+    InvalidOperationError
   );
   t.is(numbers1.single(x => x === 1), 1);
   t.throws(
     () => numbers1.single(x => x === 5),
-    /The collection does not contain exactly one element./
+    InvalidOperationError
   );
   t.throws(
     () => numbers1.single(x => x > 5),
-    /The collection does not contain exactly one element./
+    InvalidOperationError
   );
 });
 
@@ -759,13 +1633,13 @@ test('SingleOrDefault', t => {
   t.is(fruits2.singleOrDefault(), 'orange');
   t.throws(
     () => fruits3.singleOrDefault(),
-    /The collection does not contain exactly one element./
+    InvalidOperationError
   );
   t.is(numbers1.singleOrDefault(x => x === 1), 1);
   t.is(numbers1.singleOrDefault(x => x > 5), undefined);
   t.throws(
     () => numbers1.singleOrDefault(x => x === 5),
-    /The collection does not contain exactly one element./
+    InvalidOperationError
   );
 });
 
@@ -791,6 +1665,13 @@ test('SkipWhile', t => {
   );
 });
 
+test('StandardDeviation', t => {
+  const values = new List<number>([2, 4, 4, 4, 5, 5, 7, 9]);
+  t.is(values.standardDeviation(), 2);
+  t.is(values.standardDeviation(x => x * 10), 20);
+  t.true(isNaN(new List<number>().standardDeviation()));
+});
+
 test('Sum', t => {
   const people = new List<IPerson>([
     { age: 15, name: 'Cathy' },
@@ -799,6 +1680,22 @@ test('Sum', t => {
   ]);
   t.is(new List<number>([2, 3, 5]).sum(), 10);
   t.is(people.sum(x => x.age), 90);
+  t.is(new List<number>().sum(), 0);
+  const tenths = Enumerable.REPEAT(0.1, 10);
+  t.not(tenths.sum(), 1);
+  t.is(tenths.sum('compensated'), 1);
+  t.is(new List<number>([1e100, 1, -1e100]).sum(x => x, 'compensated'), 1);
+  t.is(
+    String(new List<string>(['9007199254740993', '1']).sum('bigint')),
+    '9007199254740994'
+  );
+  t.is(String(people.sum(x => x.age, 'bigint')), '90');
+
+  const bigints = new List<any>([BigInt(1), BigInt(2)]);
+  t.is(String(bigints.sum('bigint')), '3');
+  t.throws(() => bigints.sum(), /'bigint' summation/);
+  t.throws(() => bigints.sum(x => x, 'compensated'), ArgumentError);
+  t.throws(() => bigints.runningSum(), ArgumentError);
 });
 
 test('Take', t => {
@@ -827,6 +1724,50 @@ test('TakeWhile', t => {
 
 test('toArray', t => {
   t.deepEqual(new List<number>([1, 2, 3, 4, 5]).toArray(), [1, 2, 3, 4, 5]);
+  const list = new List<number>([1, 2, 3]);
+  list.toArray().push(4);
+  t.is(list.count(), 3);
+});
+
+test('ToCsv', t => {
+  const people = new List([
+    { age: 30, name: 'Smith, J' },
+    { age: 25, name: 'Doe' }
+  ]);
+  t.is(people.toCsv(), 'age,name\r\n30,"Smith, J"\r\n25,Doe');
+  t.is(
+    people.toCsv(['name', { header: 'adult', value: x => x.age >= 18 }], {
+      header: false,
+      newline: '\n'
+    }),
+    '"Smith, J",true\nDoe,true'
+  );
+  t.deepEqual(
+    Enumerable.fromCsv(people.toCsv(), { converters: { age: Number } }),
+    people
+  );
+});
+
+test('Constructor copies its array', t => {
+  const elements = [1, 2, 3];
+  const list = new List<number>(elements);
+  elements.push(4);
+  t.is(list.count(), 3);
+});
+
+test('Operator results own their arrays', t => {
+  const list = new List<number>([1, 2, 3]);
+  const results = [
+    list.where(x => x > 0),
+    list.select(x => x),
+    list.concat(list),
+    list.skip(0),
+    list.reverse(),
+    list.asSequence().toList()
+  ];
+  results.forEach(result => result.add(4));
+  t.deepEqual(list.toArray(), [1, 2, 3]);
+  t.deepEqual(results.map(x => x.count()), [4, 4, 7, 4, 4, 4]);
 });
 
 test('ToDictionary', t => {
@@ -836,16 +1777,56 @@ test('ToDictionary', t => {
     { age: 50, name: 'Bob' }
   ]);
   const dictionary = people.toDictionary(x => x.name);
-  t.deepEqual(dictionary['Bob'], { age: 50, name: 'Bob' });
-  t.is(dictionary['Bob'].age, 50);
+  t.deepEqual(dictionary.get('Bob'), { age: 50, name: 'Bob' });
+  t.is(dictionary.get('Bob').age, 50);
   const dictionary2 = people.toDictionary(x => x.name, y => y.age);
-  t.is(dictionary2['Alice'], 25);
+  t.is(dictionary2.get('Alice'), 25);
   // Dictionary should behave just like in C#
   t.is(dictionary.max(x => x.Value.age), 50);
   t.is(dictionary.min(x => x.Value.age), 15);
   const expectedKeys = new List(['Cathy', 'Alice', 'Bob']);
-  t.deepEqual(dictionary.select(x => x.Key), expectedKeys);
-  t.deepEqual(dictionary.select(x => x.Value), people);
+  t.deepEqual(dictionary.select(x => x.Key).toList(), expectedKeys);
+  t.deepEqual(dictionary.select(x => x.Value).toList(), people);
+  t.deepEqual(dictionary.keys, expectedKeys);
+  t.deepEqual(dictionary2.values.toArray(), [15, 25, 50]);
+  t.throws(
+    () => people.toDictionary(x => x.age > 20),
+    ArgumentError
+  );
+  const byInitial = people.toDictionary(
+    x => x.name.toLowerCase(),
+    EqualityComparer.IGNORE_CASE
+  );
+  t.is(byInitial.get('ALICE').age, 25);
+  const byDate = new List([new Date(2018, 0, 1)]).toDictionary(
+    x => x,
+    x => x.getFullYear()
+  );
+  t.is(byDate.count(), 1);
+  t.is(byDate.keys.first().getMonth(), 0);
+});
+
+test('ToJSON / FromJSON', t => {
+  const orders = new List([
+    {
+      lines: new List([{ product: 'tea', quantity: 2 }]),
+      placed: new Date(Date.UTC(2018, 0, 1))
+    }
+  ]);
+  const json = JSON.stringify(orders);
+  t.is(
+    json,
+    '[{"lines":[{"product":"tea","quantity":2}],"placed":"2018-01-01T00:00:00.000Z"}]'
+  );
+  const revived = List.fromJSON<{ lines: List<any>; placed: Date }>(
+    json,
+    JsonReviver.combine(JsonReviver.DATE, JsonReviver.LIST)
+  );
+  t.deepEqual(revived, orders);
+  t.is(revived.first().lines.first().quantity, 2);
+  t.deepEqual(List.fromJSON('[1,2]'), new List([1, 2]));
+  t.throws(() => List.fromJSON('{"a":1}'), ArgumentError);
+  t.throws(() => List.fromJSON(null), ArgumentNullError);
 });
 
 test('ToList', t => {
@@ -890,12 +1871,89 @@ test('ToLookup', t => {
     p => p.company.substring(0, 1),
     p => p.company + ' ' + p.trackingNumber
   );
-  const result = {
-    C: ['Coho Vineyard 89453312', 'Contoso Pharmaceuticals 670053128'],
-    L: ['Lucerne Publishing 89112755'],
-    W: ['Wingtip Toys 299456122', 'Wide World Importers 4665518773']
-  };
-  t.deepEqual(lookup, result);
+  t.deepEqual(lookup.keys.toArray(), ['C', 'L', 'W']);
+  t.deepEqual(lookup.get('C').toArray(), [
+    'Coho Vineyard 89453312',
+    'Contoso Pharmaceuticals 670053128'
+  ]);
+  t.deepEqual(lookup.get('W').toArray(), [
+    'Wingtip Toys 299456122',
+    'Wide World Importers 4665518773'
+  ]);
+  t.true(lookup.containsKey('L'));
+  t.false(lookup.containsKey('X'));
+  t.deepEqual(lookup.get('X').toArray(), []);
+});
+
+test('ToTree', t => {
+  const records = new List([
+    { id: 3, name: 'Tests', parentId: 1 },
+    { id: 1, name: 'src', parentId: null },
+    { id: 2, name: 'docs', parentId: null },
+    { id: 4, name: 'list.ts', parentId: 1 },
+    { id: 5, name: 'orphan', parentId: 9 }
+  ]);
+  const roots = records.toTree(x => x.id, x => x.parentId);
+  t.deepEqual(roots.select(x => x.value.name).toArray(), [
+    'src',
+    'docs',
+    'orphan'
+  ]);
+  const src = roots.first();
+  t.is(src.parent, null);
+  t.deepEqual(src.children.select(x => x.value.name).toArray(), [
+    'Tests',
+    'list.ts'
+  ]);
+  t.is(src.children.first().parent, src);
+  t.deepEqual(
+    roots
+      .traverseDepthFirst(x => x.children)
+      .select(x => `${x.value.value.name}${x.depth}`)
+      .toArray(),
+    ['src0', 'Tests1', 'list.ts1', 'docs0', 'orphan0']
+  );
+  t.is(records.toTree(x => x.id, x => x.parentId).count(), 3);
+  t.throws(
+    () =>
+      new List([{ id: 1, parent: 2 }, { id: 2, parent: 1 }, { id: 3 }]).toTree(
+        x => x.id,
+        x => x.parent
+      ),
+    InvalidOperationError
+  );
+  t.throws(
+    () => new List([{ id: 1 }, { id: 1 }]).toTree(x => x.id, x => undefined),
+    ArgumentError
+  );
+  t.throws(() => records.toTree(null, x => x.parentId), ArgumentNullError);
+});
+
+test('TraverseDepthFirst / TraverseBreadthFirst', t => {
+  const children = (n: number) => (n < 4 ? [n * 2, n * 2 + 1] : []);
+  t.deepEqual(
+    new List([1])
+      .traverseDepthFirst(children)
+      .select(x => x.value)
+      .toArray(),
+    [1, 2, 4, 5, 3, 6, 7]
+  );
+  const breadthFirst = new List([1]).traverseBreadthFirst(children);
+  t.deepEqual(
+    breadthFirst.select(x => x.value).toArray(),
+    [1, 2, 3, 4, 5, 6, 7]
+  );
+  t.deepEqual(breadthFirst.last(), {
+    depth: 2,
+    parent: 3,
+    path: [1, 3, 7],
+    value: 7
+  });
+  // deep hierarchies do not overflow the call stack
+  t.is(
+    new List([0]).traverseDepthFirst(n => (n < 20000 ? [n + 1] : null)).count(),
+    20001
+  );
 });
 
 test('Union', t => {
@@ -917,6 +1975,66 @@ test('Union', t => {
     new Product({ name: 'lemon', code: 12 })
   ]);
   // t.deepEqual(store1.Union(store2).toArray(), result);
+
+  t.deepEqual(
+    new List<string>(['a', 'b'])
+      .union(new List<string>(['B', 'c']), EqualityComparer.IGNORE_CASE)
+      .toArray(),
+    ['a', 'b', 'c']
+  );
+});
+
+test('UnionBy', t => {
+  const first = new List([{ id: 1, name: 'Bob' }, { id: 2, name: 'Cathy' }]);
+  const second = new List([{ id: 2, name: 'Kathy' }, { id: 3, name: 'Alice' }]);
+  t.deepEqual(
+    first
+      .unionBy(second, p => p.id)
+      .select(p => p.name)
+      .toArray(),
+    ['Bob', 'Cathy', 'Alice']
+  );
+});
+
+test('Set operators on large inputs', t => {
+  const rows = Enumerable.RANGE(0, 50000).select(id => ({ id, group: id % 100 }));
+  const ids = Enumerable.RANGE(0, 25000);
+  t.is(rows.distinctBy(x => x.group).count(), 100);
+  t.is(rows.select(x => ({ group: x.group })).distinct().count(), 100);
+  t.is(rows.exceptBy(ids, x => x.id).count(), 25000);
+  t.is(rows.intersectBy(ids, x => x.id).count(), 25000);
+  t.is(ids.union(Enumerable.RANGE(20000, 10000)).count(), 30000);
+});
+
+test('Joins on large inputs', t => {
+  const orders = Enumerable.RANGE(0, 50000).select(id => ({
+    customer: id % 25000,
+    id
+  }));
+  const customers = Enumerable.RANGE(0, 50000);
+  t.is(
+    orders.join(customers, o => o.customer, c => c, (o, c) => c).count(),
+    50000
+  );
+  t.is(
+    orders
+      .groupJoin(customers, o => o.customer, c => c, (o, cs) => cs.count())
+      .sum(),
+    50000
+  );
+});
+
+test('Variance', t => {
+  const values = new List<number>([2, 4, 4, 4, 5, 5, 7, 9]);
+  t.is(values.variance(), 4);
+  t.is(
+    new List<IPet>([
+      { age: 2, name: 'Boots' },
+      { age: 8, name: 'Barley' }
+    ]).variance(pet => pet.age),
+    9
+  );
+  t.true(isNaN(new List<number>().variance()));
 });
 
 test('Where', t => {
@@ -934,6 +2052,25 @@ test('Where', t => {
   t.deepEqual(fruits.where(fruit => fruit.length < 6).toArray(), expected);
 });
 
+test('Window', t => {
+  const numbers = Enumerable.RANGE(1, 5);
+  const windows = (list: List<List<number>>) =>
+    list.select(x => x.toArray()).toArray();
+  t.deepEqual(windows(numbers.window(3)), [[1, 2, 3], [2, 3, 4], [3, 4, 5]]);
+  t.deepEqual(windows(numbers.window(2, 2)), [[1, 2], [3, 4]]);
+  t.deepEqual(windows(numbers.window(2, 2, true)), [[1, 2], [3, 4], [5]]);
+  t.deepEqual(windows(numbers.window(3, 1, true)), [
+    [1, 2, 3],
+    [2, 3, 4],
+    [3, 4, 5],
+    [4, 5],
+    [5]
+  ]);
+  t.deepEqual(windows(numbers.window(1, 3)), [[1], [4]]);
+  t.deepEqual(windows(numbers.window(6)), []);
+  t.throws(() => numbers.window(2, 0), ArgumentOutOfRangeError);
+});
+
 test('Zip', t => {
   const numbers = new List<number>([1, 2, 3, 4]);
   const words = new List<string>(['one', 'two', 'three']);
@@ -1,28 +1,96 @@
-import { composeComparers, equal, isObj, keyComparer, negate } from './helpers';
+import { ICsvColumn, ICsvWriteOptions, writeCsv } from './csv';
+import {
+  composeComparers,
+  extremum,
+  keyComparer,
+  negate,
+  stableSort,
+  typeNameOf
+} from './helpers';
+import EqualityComparer, { IEqualityComparer } from './equality-comparer';
+import {
+  ArgumentError,
+  ArgumentNullError,
+  ArgumentOutOfRangeError,
+  InvalidOperationError,
+  NotSupportedError
+} from './errors';
+import HashSet from './hash-set';
+import { IJsonReviver } from './json-reviver';
+import ListIndex, { IIndexOptions } from './list-index';
+import PagedResult, { ICursorPage } from './paged-result';
+import PivotTable, {
+  IPivotAggregates,
+  PivotAggregateValues
+} from './pivot-table';
+import Sequence, { Dictionary, Grouping, Lookup } from './sequence';
+import {
+  histogram,
+  IHistogramBucket,
+  mode,
+  quantile,
+  QuantileInterpolation,
+  runningTotal,
+  sum,
+  Summation,
+  variance
+} from './statistics';
+import TreeNode, { ITraversalNode } from './tree-node';
+
+type AverageSummation = Exclude<Summation, 'bigint'>;
+
+class List<T> implements Iterable<T> {
+  /**
+   * Creates a List<T> from JSON text that holds an array, such as the one written by JSON.stringify for a List<T>.
+   * The reviver, for instance one of those of JsonReviver, transforms the parsed values, so that Dates
+   * and nested Lists round-trip.
+   */
+  public static fromJSON<T>(json: string, reviver?: IJsonReviver): List<T> {
+    ArgumentNullError.throwIfNull(json, 'json');
+
+    const value = JSON.parse(json, reviver);
+    if (value instanceof List) {
+      return value;
+    }
+    if (!Array.isArray(value)) {
+      throw new ArgumentError('The JSON text does not hold an array.', 'json');
+    }
+
+    return adopt<T>(value);
+  }
 
-class List<T> {
   // tslint:disable-next-line: variable-name
   protected _elements: T[];
+  private indexes: Map<string, ListIndex<T, any>>;
 
   /**
-   * Defaults the elements of the list
+   * Defaults the elements of the list, copying them so that later changes to the given array don't affect it
    */
   constructor(elements: T[] = []) {
-    this._elements = elements;
+    this._elements = elements.slice();
+  }
+
+  /**
+   * Returns an iterator over the elements of the List<T>, so it can be used with for...of, spread or Array.from.
+   */
+  public [Symbol.iterator](): Iterator<T> {
+    return this._elements[Symbol.iterator]();
   }
 
   /**
    * Adds an object to the end of the List<T>.
    */
   public add(element: T): void {
-    this._elements.push(element);
+    this.splice(this._elements.length, 0, [element]);
   }
 
   /**
    * Adds the elements of the specified collection to the end of the List<T>.
    */
   public addRange(elements: T[]): void {
-    this._elements.push(...elements);
+    ArgumentNullError.throwIfNull(elements, 'elements');
+
+    this.splice(this._elements.length, 0, elements);
   }
 
   /**
@@ -32,6 +100,8 @@ class List<T> {
     accumulator: (accum: U, value?: T, index?: number, list?: T[]) => any,
     initialValue?: U
   ): any {
+    ArgumentNullError.throwIfNull(accumulator, 'accumulator');
+
     return this._elements.reduce(accumulator, initialValue);
   }
 
@@ -41,6 +111,8 @@ class List<T> {
   public all(
     predicate: (value?: T, index?: number, list?: T[]) => boolean
   ): boolean {
+    ArgumentNullError.throwIfNull(predicate, 'predicate');
+
     return this._elements.every(predicate);
   }
 
@@ -62,18 +134,80 @@ class List<T> {
       : this._elements.length > 0;
   }
 
+  /**
+   * Returns a read-only view of the List<T>, which reflects later changes to the list but cannot modify it.
+   */
+  public asReadOnly(): ReadOnlyList<T> {
+    return new ReadOnlyListView<T>(this._elements);
+  }
+
+  /**
+   * Returns the List<T> as a Sequence<T>, whose operators are evaluated lazily.
+   */
+  public asSequence(): Sequence<T> {
+    return new Sequence<T>(this._elements);
+  }
+
   /**
    * Computes the average of a sequence of number values that are obtained by invoking
-   * a transform function on each element of the input sequence.
+   * a transform function on each element of the input sequence, adding them up as sum does.
+   * The average of Dates is the Date at their mean time. Returns NaN for an empty sequence.
    */
-  public average(): number;
+  public average(summation?: AverageSummation): number;
   public average(
-    transform: (value?: T, index?: number, list?: T[]) => any
+    transform: (value?: T, index?: number, list?: T[]) => Date,
+    summation?: AverageSummation
+  ): Date;
+  public average(
+    transform: (value?: T, index?: number, list?: T[]) => any,
+    summation?: AverageSummation
   ): number;
   public average(
-    transform?: (value?: T, index?: number, list?: T[]) => any
-  ): number {
-    return this.sum(transform) / this.count(transform);
+    transform?:
+      | ((value?: T, index?: number, list?: T[]) => any)
+      | AverageSummation,
+    summation?: AverageSummation
+  ): number | Date {
+    const values: any[] =
+      typeof transform === 'function'
+        ? this._elements.map(transform)
+        : this._elements;
+    const mode = typeof transform === 'function' ? summation : transform;
+
+    return values[0] instanceof Date
+      ? new Date(sum(values.map(x => x.getTime()), mode) / values.length)
+      : sum(values.map(x => +x), mode) / values.length;
+  }
+
+  /**
+   * Splits a list into batches of consecutive elements, in order. Each element is added to the current batch
+   * while the predicate, given that batch and the element, returns true, and starts a new batch otherwise.
+   * When a maximum weight is given instead, each batch holds as many elements as fit in it by the weight selector;
+   * an element heavier than the maximum gets a batch of its own.
+   */
+  public batchBy(
+    predicate: (batch: List<T>, element: T) => boolean
+  ): List<List<T>>;
+  public batchBy(
+    maxWeight: number,
+    weightSelector: (element: T) => number
+  ): List<List<T>>;
+  public batchBy(
+    predicate: ((batch: List<T>, element: T) => boolean) | number,
+    weightSelector?: (element: T) => number
+  ): List<List<T>> {
+    ArgumentNullError.throwIfNull(predicate, 'predicate');
+    if (typeof predicate === 'number') {
+      ArgumentNullError.throwIfNull(weightSelector, 'weightSelector');
+
+      return this.asSequence()
+        .batchBy(predicate, weightSelector)
+        .toList();
+    }
+
+    return this.asSequence()
+      .batchBy(predicate)
+      .toList();
   }
 
   /**
@@ -83,18 +217,31 @@ class List<T> {
     return new List<U>(<any>this._elements);
   }
 
+  /**
+   * Splits the elements of a list into chunks of the given size; the last chunk may be smaller.
+   */
+  public chunk(size: number): List<List<T>> {
+    return this.asSequence()
+      .chunk(size)
+      .toList();
+  }
+
   /**
    * Concatenates two sequences.
    */
   public concat(list: List<T>): List<T> {
-    return new List<T>(this._elements.concat(list.toArray()));
+    ArgumentNullError.throwIfNull(list, 'list');
+
+    return adopt<T>(this._elements.concat(list._elements));
   }
 
   /**
-   * Determines whether an element is in the List<T>.
+   * Determines whether an element is in the List<T>, optionally by using a specified equality comparer.
    */
-  public contains(element: T): boolean {
-    return this._elements.some(x => x === element);
+  public contains(element: T, comparer?: IEqualityComparer<T>): boolean {
+    return comparer
+      ? this._elements.some(x => comparer.equals(x, element))
+      : this._elements.some(x => x === element);
   }
 
   /**
@@ -110,49 +257,105 @@ class List<T> {
     return predicate ? this.where(predicate).count() : this._elements.length;
   }
 
+  /**
+   * Creates a secondary index with the given name, which finds the elements with a given key for lookupBy
+   * without scanning the list, and is kept up to date as elements are added and removed. A unique index throws
+   * when two elements would share a key, both when it is created and when an element is added.
+   */
+  public createIndex<TKey>(
+    name: string,
+    keySelector: (element: T) => TKey,
+    options: IIndexOptions<TKey> = {}
+  ): void {
+    ArgumentNullError.throwIfNull(name, 'name');
+    ArgumentNullError.throwIfNull(keySelector, 'keySelector');
+    if (this.indexes && this.indexes.has(name)) {
+      throw new ArgumentError(
+        `An index with the same name already exists. Name: ${name}`,
+        'name'
+      );
+    }
+
+    const index = new ListIndex<T, TKey>(
+      name,
+      keySelector,
+      options,
+      this._elements
+    );
+    this.indexes = this.indexes || new Map<string, ListIndex<T, any>>();
+    this.indexes.set(name, index);
+  }
+
+  /**
+   * Returns the Cartesian product of two sequences: every element of this list paired with every element of the given one.
+   */
+  public crossJoin<U, TResult>(
+    list: List<U>,
+    result: (first: T, second: U) => TResult
+  ): List<TResult> {
+    ArgumentNullError.throwIfNull(list, 'list');
+    ArgumentNullError.throwIfNull(result, 'result');
+    const joined: TResult[] = [];
+    this._elements.forEach(x =>
+      list._elements.forEach(y => joined.push(result(x, y)))
+    );
+
+    return adopt<TResult>(joined);
+  }
+
   /**
    * Returns the elements of the specified sequence or the type parameter's default value
    * in a singleton collection if the sequence is empty.
    */
   public defaultIfEmpty(defaultValue?: T): List<T> {
-    return this.count() ? this : new List<T>([defaultValue]);
+    return this.count() ? this : adopt<T>([defaultValue]);
   }
 
   /**
-   * Returns distinct elements from a sequence by using the default equality comparer to compare values.
+   * Returns distinct elements from a sequence, keeping the first occurrence of each in source order.
+   * Values are compared with a specified equality comparer, or else structurally, so objects with
+   * the same properties count as duplicates. Runs in linear time.
    */
-  public distinct(): List<T> {
-    return this.where(
-      (value, index, iter) =>
-        (isObj(value)
-          ? iter.findIndex(obj => equal(obj, value))
-          : iter.indexOf(value)) === index
-    );
+  public distinct(
+    comparer: IEqualityComparer<T> = EqualityComparer.STRUCTURAL
+  ): List<T> {
+    return this.distinctBy(x => x, comparer);
   }
 
   /**
-   * Returns distinct elements from a sequence according to specified key selector.
+   * Returns distinct elements from a sequence according to specified key selector, keeping the first
+   * element for each key in source order. Keys are compared with a specified equality comparer, or else structurally.
    */
-  public distinctBy(keySelector: (key: T) => string | number): List<T> {
-    const groups = this.groupBy(keySelector);
+  public distinctBy<TKey>(
+    keySelector: (key: T) => TKey,
+    comparer: IEqualityComparer<TKey> = EqualityComparer.STRUCTURAL
+  ): List<T> {
+    ArgumentNullError.throwIfNull(keySelector, 'keySelector');
+    const seen = new HashSet<TKey>(comparer);
 
-    return Object.keys(groups).reduce((res, key) => {
-      res.add(groups[key][0]);
+    return this.where(x => seen.add(keySelector(x)));
+  }
 
-      return res;
-    },                                new List<T>());
+  /**
+   * Removes the secondary index with the given name, returning false when there was none.
+   */
+  public dropIndex(name: string): boolean {
+    return !!this.indexes && this.indexes.delete(name);
   }
 
   /**
    * Returns the element at a specified index in a sequence.
    */
   public elementAt(index: number): T {
-    if (index < this.count()) {
+    if (index >= 0 && index < this.count()) {
       return this._elements[index];
     } else {
-      const MSG =
-        'ArgumentOutOfRangeException: index is less than 0 or greater than or equal to the number of elements in source.';
-      throw new Error(MSG);
+      throw new ArgumentOutOfRangeError(
+        'index',
+        index,
+        'index is less than 0 or greater than or equal to the number of elements in source.',
+        this.count()
+      );
     }
   }
 
@@ -160,14 +363,37 @@ class List<T> {
    * Returns the element at a specified index in a sequence or a default value if the index is out of range.
    */
   public elementAtOrDefault(index: number): T {
-    return this.elementAt(index) || undefined;
+    return index >= 0 && index < this.count()
+      ? this._elements[index]
+      : undefined;
   }
 
   /**
-   * Produces the set difference of two sequences by using the default equality comparer to compare values.
+   * Produces the set difference of two sequences. Values are compared with a specified equality comparer,
+   * or else structurally, like in every set operator, so objects with the same properties are equal.
+   * Returns the elements of this list that are not in the source, in their original order and including duplicates.
    */
-  public except(source: List<T>): List<T> {
-    return this.where(x => !source.contains(x));
+  public except(source: List<T>, comparer?: IEqualityComparer<T>): List<T> {
+    ArgumentNullError.throwIfNull(source, 'source');
+
+    return this.exceptBy(source, x => x, comparer);
+  }
+
+  /**
+   * Produces the set difference of two sequences according to a specified key selector function.
+   * Keys are compared with a specified equality comparer, or else structurally.
+   * Returns the elements of this list whose keys are not in the given keys, in their original order.
+   */
+  public exceptBy<TKey>(
+    keys: List<TKey>,
+    keySelector: (key: T) => TKey,
+    comparer: IEqualityComparer<TKey> = EqualityComparer.STRUCTURAL
+  ): List<T> {
+    ArgumentNullError.throwIfNull(keys, 'keys');
+    ArgumentNullError.throwIfNull(keySelector, 'keySelector');
+    const excluded = new HashSet<TKey>(comparer, keys);
+
+    return this.where(x => !excluded.has(keySelector(x)));
   }
 
   /**
@@ -181,9 +407,7 @@ class List<T> {
     if (this.count()) {
       return predicate ? this.where(predicate).first() : this._elements[0];
     } else {
-      throw new Error(
-        'InvalidOperationException: The source sequence is empty.'
-      );
+      throw new InvalidOperationError('The source sequence is empty.');
     }
   }
 
@@ -200,48 +424,137 @@ class List<T> {
     return this.count(predicate) ? this.first(predicate) : undefined;
   }
 
+  /**
+   * Flattens a hierarchy: returns each element followed by all of its descendants, depth-first,
+   * which are found by the children selector. Elements without children may return null or undefined.
+   */
+  public flatten(childrenSelector: (element: T) => Iterable<T>): List<T> {
+    ArgumentNullError.throwIfNull(childrenSelector, 'childrenSelector');
+
+    return this.asSequence()
+      .flatten(childrenSelector)
+      .toList();
+  }
+
   /**
    * Performs the specified action on each element of the List<T>.
    */
   public forEach(action: (value?: T, index?: number, list?: T[]) => any): void {
+    ArgumentNullError.throwIfNull(action, 'action');
+
     this._elements.forEach(action);
   }
 
   /**
-   * Groups the elements of a sequence according to a specified key selector function.
+   * Correlates the elements of two sequences based on matching keys, keeping the elements of both that have no match.
+   * Returns the left join of this list with the given one, followed by the elements of the given list whose key
+   * matches no element of this list, each paired with a default value (null unless specified) for the missing side.
+   * Keys are compared with a specified equality comparer, or else structurally.
    */
-  public groupBy<TResult = T>(
-    grouper: (key: T) => string | number,
-    mapper: (element: T) => TResult = val => <TResult>(<any>val)
-  ): { [key: string]: TResult[] } {
-    const initialValue: { [key: string]: TResult[] } = {};
+  public fullOuterJoin<U, TKey, TResult>(
+    list: List<U>,
+    key1: (key: T) => TKey,
+    key2: (key: U) => TKey,
+    result: (first: T, second: U) => TResult,
+    defaultFirst: T = null,
+    defaultSecond: U = null,
+    comparer: IEqualityComparer<TKey> = EqualityComparer.STRUCTURAL
+  ): List<TResult> {
+    ArgumentNullError.throwIfNull(list, 'list');
+    ArgumentNullError.throwIfNull(key1, 'key1');
+    ArgumentNullError.throwIfNull(key2, 'key2');
+    ArgumentNullError.throwIfNull(result, 'result');
+    const outerKeys = new HashSet<TKey>(
+      comparer,
+      this._elements.map(x => key1(x))
+    );
 
-    return this.aggregate((ac, v) => {
-      const key = grouper(v);
-      const existingGroup = ac[key];
-      const mappedValue = mapper(v);
-      if (existingGroup) {
-        existingGroup.push(mappedValue);
-      } else {
-        ac[key] = [mappedValue];
-      }
+    return this.leftJoin(
+      list,
+      key1,
+      key2,
+      result,
+      defaultSecond,
+      comparer
+    ).concat(
+      list
+        .where(y => !outerKeys.has(key2(y)))
+        .select(y => result(defaultFirst, y))
+    );
+  }
 
-      return ac;
-    },                    initialValue);
+  /**
+   * Groups the elements of a sequence according to a specified key selector function, optionally projecting
+   * the elements of each group and comparing keys by using a specified equality comparer.
+   * When a result selector is given, creates a result value from each group and its key.
+   */
+  public groupBy<TKey, TElement = T>(
+    keySelector: (key: T) => TKey,
+    elementSelector?: (element: T) => TElement,
+    comparer?: IEqualityComparer<TKey>
+  ): Lookup<TKey, TElement>;
+  public groupBy<TKey, TElement, TResult>(
+    keySelector: (key: T) => TKey,
+    elementSelector: (element: T) => TElement,
+    resultSelector: (key: TKey, elements: Grouping<TKey, TElement>) => TResult,
+    comparer?: IEqualityComparer<TKey>
+  ): List<TResult>;
+  public groupBy<TKey, TElement, TResult>(
+    keySelector: (key: T) => TKey,
+    elementSelector?: (element: T) => TElement,
+    resultSelector?: any,
+    comparer?: IEqualityComparer<TKey>
+  ): Lookup<TKey, TElement> | List<TResult> {
+    ArgumentNullError.throwIfNull(keySelector, 'keySelector');
+
+    if (typeof resultSelector !== 'function') {
+      return Lookup.create(this, keySelector, elementSelector, resultSelector);
+    }
+
+    return Lookup.create(this, keySelector, elementSelector, comparer)
+      .select(group => resultSelector(group.key, group))
+      .toList();
   }
 
   /**
    * Correlates the elements of two sequences based on equality of keys and groups the results.
-   * The default equality comparer is used to compare keys.
+   * Keys are compared with a specified equality comparer, or else structurally, so key selectors
+   * may return tuples or objects as composite keys.
+   * The given list is indexed by key once, so each element of this list is matched in constant time;
+   * every group keeps the matching elements in their original order.
    */
-  public groupJoin<U>(
+  public groupJoin<U, TKey, TResult>(
     list: List<U>,
-    key1: (k: T) => any,
-    key2: (k: U) => any,
-    result: (first: T, second: List<U>) => any
-  ): List<any> {
-    return this.select((x, y) =>
-      result(x, list.where(z => key1(x) === key2(z)))
+    key1: (k: T) => TKey,
+    key2: (k: U) => TKey,
+    result: (first: T, second: List<U>) => TResult,
+    comparer: IEqualityComparer<TKey> = EqualityComparer.STRUCTURAL
+  ): List<TResult> {
+    ArgumentNullError.throwIfNull(list, 'list');
+    ArgumentNullError.throwIfNull(key1, 'key1');
+    ArgumentNullError.throwIfNull(key2, 'key2');
+    ArgumentNullError.throwIfNull(result, 'result');
+
+    const inner = list.toLookup<TKey>(key2, undefined, comparer);
+
+    return this.select(x => result(x, inner.get(key1(x)).toList()));
+  }
+
+  /**
+   * Splits the range between the smallest and the largest of a sequence of numbers into the given number
+   * of buckets of equal width, and counts the values in each. Returns an empty List for an empty sequence.
+   */
+  public histogram(bucketCount: number): List<IHistogramBucket>;
+  public histogram(
+    bucketCount: number,
+    transform: (value?: T, index?: number, list?: T[]) => number
+  ): List<IHistogramBucket>;
+  public histogram(
+    bucketCount: number,
+    transform?: (value?: T, index?: number, list?: T[]) => number
+  ): List<IHistogramBucket> {
+    return adopt<IHistogramBucket>(
+      histogram(this.toNumbers(transform), bucketCount)
     );
   }
 
@@ -257,31 +570,69 @@ class List<T> {
    */
   public insert(index: number, element: T): void | Error {
     if (index < 0 || index > this._elements.length) {
-      throw new Error('Index is out of range.');
+      throw new ArgumentOutOfRangeError(
+        'index',
+        index,
+        'Index is out of range.',
+        this.count()
+      );
     }
 
-    this._elements.splice(index, 0, element);
+    this.splice(index, 0, [element]);
   }
 
   /**
-   * Produces the set intersection of two sequences by using the default equality comparer to compare values.
+   * Produces the set intersection of two sequences. Values are compared with a specified equality comparer,
+   * or else structurally, like in every set operator, so objects with the same properties are equal.
+   * Returns the elements of this list that are also in the source, in their original order and including duplicates.
    */
-  public intersect(source: List<T>): List<T> {
-    return this.where(x => source.contains(x));
+  public intersect(source: List<T>, comparer?: IEqualityComparer<T>): List<T> {
+    ArgumentNullError.throwIfNull(source, 'source');
+
+    return this.intersectBy(source, x => x, comparer);
   }
 
   /**
-   * Correlates the elements of two sequences based on matching keys. The default equality comparer is used to compare keys.
+   * Produces the set intersection of two sequences according to a specified key selector function.
+   * Keys are compared with a specified equality comparer, or else structurally.
+   * Returns the elements of this list whose keys are in the given keys, in their original order.
    */
-  public join<U>(
+  public intersectBy<TKey>(
+    keys: List<TKey>,
+    keySelector: (key: T) => TKey,
+    comparer: IEqualityComparer<TKey> = EqualityComparer.STRUCTURAL
+  ): List<T> {
+    ArgumentNullError.throwIfNull(keys, 'keys');
+    ArgumentNullError.throwIfNull(keySelector, 'keySelector');
+    const included = new HashSet<TKey>(comparer, keys);
+
+    return this.where(x => included.has(keySelector(x)));
+  }
+
+  /**
+   * Correlates the elements of two sequences based on matching keys.
+   * Keys are compared with a specified equality comparer, or else structurally, so key selectors
+   * may return tuples or objects as composite keys.
+   * The given list is indexed by key once; results follow the order of this list, then the order of the matches.
+   */
+  public join<U, TKey, TResult>(
     list: List<U>,
-    key1: (key: T) => any,
-    key2: (key: U) => any,
-    result: (first: T, second: U) => any
-  ): List<any> {
-    return this.selectMany(x =>
-      list.where(y => key2(y) === key1(x)).select(z => result(x, z))
+    key1: (key: T) => TKey,
+    key2: (key: U) => TKey,
+    result: (first: T, second: U) => TResult,
+    comparer: IEqualityComparer<TKey> = EqualityComparer.STRUCTURAL
+  ): List<TResult> {
+    ArgumentNullError.throwIfNull(list, 'list');
+    ArgumentNullError.throwIfNull(key1, 'key1');
+    ArgumentNullError.throwIfNull(key2, 'key2');
+    ArgumentNullError.throwIfNull(result, 'result');
+    const inner = list.toLookup<TKey>(key2, undefined, comparer);
+    const joined: TResult[] = [];
+    this._elements.forEach(x =>
+      inner.get(key1(x)).forEach(y => joined.push(result(x, y)))
     );
+
+    return adopt<TResult>(joined);
   }
 
   /**
@@ -297,7 +648,7 @@ class List<T> {
         ? this.where(predicate).last()
         : this._elements[this.count() - 1];
     } else {
-      throw Error('InvalidOperationException: The source sequence is empty.');
+      throw new InvalidOperationError('The source sequence is empty.');
     }
   }
 
@@ -315,53 +666,151 @@ class List<T> {
   }
 
   /**
-   * Returns the maximum value in a generic sequence.
+   * Correlates the elements of two sequences based on matching keys, keeping the elements of this list that have no match.
+   * Each element of this list is paired with every matching element of the given list, in order,
+   * or else with a default value, which is null unless specified.
+   * Keys are compared with a specified equality comparer, or else structurally.
    */
-  public max(): number;
-  public max(selector: (value: T, index: number, array: T[]) => number): number;
-  public max(
-    selector?: (value: T, index: number, array: T[]) => number
-  ): number {
-    const id = x => x;
+  public leftJoin<U, TKey, TResult>(
+    list: List<U>,
+    key1: (key: T) => TKey,
+    key2: (key: U) => TKey,
+    result: (first: T, second: U) => TResult,
+    defaultValue: U = null,
+    comparer: IEqualityComparer<TKey> = EqualityComparer.STRUCTURAL
+  ): List<TResult> {
+    ArgumentNullError.throwIfNull(list, 'list');
+    ArgumentNullError.throwIfNull(key1, 'key1');
+    ArgumentNullError.throwIfNull(key2, 'key2');
+    ArgumentNullError.throwIfNull(result, 'result');
+    const inner = list.toLookup<TKey>(key2, undefined, comparer);
+    const joined: TResult[] = [];
+    this._elements.forEach(x => {
+      const matches = inner.get(key1(x));
+      if (matches.any()) {
+        matches.forEach(y => joined.push(result(x, y)));
+      } else {
+        joined.push(result(x, defaultValue));
+      }
+    });
+
+    return adopt<TResult>(joined);
+  }
+
+  /**
+   * Returns the elements with the given key in the secondary index with the given name, in the order of the list.
+   * Throws if there is no such index.
+   */
+  public lookupBy<TKey>(name: string, key: TKey): List<T> {
+    const index = this.indexes && this.indexes.get(name);
+    if (!index) {
+      throw new ArgumentError(`There is no index named ${name}.`, 'name');
+    }
+
+    return adopt<T>(index.get(key));
+  }
+
+  /**
+   * Returns the maximum value in a generic sequence, such as a number, string or Date.
+   * Values are compared with the given comparer, or else with < and >. Throws if the sequence is empty.
+   */
+  public max(): T;
+  public max<TResult>(
+    selector: (value: T, index: number, array: T[]) => TResult,
+    comparer?: (a: TResult, b: TResult) => number
+  ): TResult;
+  public max<TResult>(
+    selector?: (value: T, index: number, array: T[]) => TResult,
+    comparer?: (a: TResult, b: TResult) => number
+  ): TResult {
+    const values: TResult[] = selector
+      ? this._elements.map(selector)
+      : <any>this._elements;
+
+    return extremum(values, x => x, 1, comparer);
+  }
 
-    return Math.max(...this._elements.map(selector || id));
+  /**
+   * Returns the first element with the largest key.
+   * Keys are compared with the given comparer, or else with < and >. Throws if the sequence is empty.
+   */
+  public maxBy<TKey>(
+    keySelector: (value: T, index: number) => TKey,
+    comparer?: (a: TKey, b: TKey) => number
+  ): T {
+    ArgumentNullError.throwIfNull(keySelector, 'keySelector');
+
+    return extremum(this._elements, keySelector, 1, comparer);
   }
 
   /**
-   * Returns the minimum value in a generic sequence.
+   * Computes the median of a sequence of numbers, the mean of the two middle values when the count is even.
+   * Returns NaN for an empty sequence, like average.
    */
-  public min(): number;
-  public min(selector: (value: T, index: number, array: T[]) => number): number;
-  public min(
-    selector?: (value: T, index: number, array: T[]) => number
+  public median(): number;
+  public median(
+    transform: (value?: T, index?: number, list?: T[]) => number
+  ): number;
+  public median(
+    transform?: (value?: T, index?: number, list?: T[]) => number
   ): number {
-    const id = x => x;
+    return quantile(this.toNumbers(transform), 0.5);
+  }
+
+  /**
+   * Returns the minimum value in a generic sequence, such as a number, string or Date.
+   * Values are compared with the given comparer, or else with < and >. Throws if the sequence is empty.
+   */
+  public min(): T;
+  public min<TResult>(
+    selector: (value: T, index: number, array: T[]) => TResult,
+    comparer?: (a: TResult, b: TResult) => number
+  ): TResult;
+  public min<TResult>(
+    selector?: (value: T, index: number, array: T[]) => TResult,
+    comparer?: (a: TResult, b: TResult) => number
+  ): TResult {
+    const values: TResult[] = selector
+      ? this._elements.map(selector)
+      : <any>this._elements;
+
+    return extremum(values, x => x, -1, comparer);
+  }
 
-    return Math.min(...this._elements.map(selector || id));
+  /**
+   * Returns the first element with the smallest key.
+   * Keys are compared with the given comparer, or else with < and >. Throws if the sequence is empty.
+   */
+  public minBy<TKey>(
+    keySelector: (value: T, index: number) => TKey,
+    comparer?: (a: TKey, b: TKey) => number
+  ): T {
+    ArgumentNullError.throwIfNull(keySelector, 'keySelector');
+
+    return extremum(this._elements, keySelector, -1, comparer);
+  }
+
+  /**
+   * Returns the most frequent value in a sequence of numbers, the one that occurs first on a tie.
+   * Returns NaN for an empty sequence, like average.
+   */
+  public mode(): number;
+  public mode(
+    transform: (value?: T, index?: number, list?: T[]) => number
+  ): number;
+  public mode(
+    transform?: (value?: T, index?: number, list?: T[]) => number
+  ): number {
+    return mode(this.toNumbers(transform));
   }
 
   /**
    * Filters the elements of a sequence based on a specified type.
    */
   public ofType<U>($type: any): List<U> {
-    let typeName;
-    switch ($type) {
-      case Number:
-        typeName = typeof 0;
-        break;
-      case String:
-        typeName = typeof '';
-        break;
-      case Boolean:
-        typeName = typeof true;
-        break;
-      case Function:
-        // tslint:disable-next-line: no-function-expression
-        typeName = typeof function () { }; // tslint:disable-line no-empty
-        break;
-      default:
-        typeName = undefined;
-    }
+    ArgumentNullError.throwIfNull($type, '$type');
+
+    const typeName = typeNameOf($type);
 
     return typeName === undefined
       ? this.where(x => x instanceof $type).cast<U>()
@@ -374,8 +823,10 @@ class List<T> {
   public orderBy(
     keySelector: (key: T) => any,
     comparer = keyComparer(keySelector, false)
-  ): List<T> {
-    return new OrderedList<T>(this._elements, comparer);
+  ): OrderedList<T> {
+    ArgumentNullError.throwIfNull(keySelector, 'keySelector');
+
+    return new OrderedList<T>(this._elements.slice(), comparer, false);
   }
 
   /**
@@ -384,22 +835,203 @@ class List<T> {
   public orderByDescending(
     keySelector: (key: T) => any,
     comparer = keyComparer(keySelector, true)
-  ): List<T> {
-    return new OrderedList<T>(this._elements, comparer);
+  ): OrderedList<T> {
+    ArgumentNullError.throwIfNull(keySelector, 'keySelector');
+
+    return new OrderedList<T>(this._elements.slice(), comparer, true);
   }
 
   /**
    * Performs a subsequent ordering of the elements in a sequence in ascending order according to a key.
    */
-  public thenBy(keySelector: (key: T) => any): List<T> {
-    return this.orderBy(keySelector);
+  public thenBy(
+    keySelector: (key: T) => any,
+    comparer = keyComparer(keySelector, false)
+  ): OrderedList<T> {
+    return this.orderBy(keySelector, comparer);
   }
 
   /**
    * Performs a subsequent ordering of the elements in a sequence in descending order, according to a key.
    */
-  public thenByDescending(keySelector: (key: T) => any): List<T> {
-    return this.orderByDescending(keySelector);
+  public thenByDescending(
+    keySelector: (key: T) => any,
+    comparer = keyComparer(keySelector, true)
+  ): OrderedList<T> {
+    return this.orderByDescending(keySelector, comparer);
+  }
+
+  /**
+   * Returns the page at the given zero-based index, pageSize elements long, together with the total number
+   * of elements and pages. A page past the last one is empty.
+   */
+  public paginate(pageIndex: number, pageSize: number): PagedResult<T> {
+    if (!(pageIndex >= 0) || pageIndex % 1 !== 0) {
+      throw new ArgumentOutOfRangeError(
+        'pageIndex',
+        pageIndex,
+        'The page index must be a non-negative integer.'
+      );
+    }
+    if (!(pageSize >= 1) || pageSize % 1 !== 0) {
+      throw new ArgumentOutOfRangeError(
+        'pageSize',
+        pageSize,
+        'The page size must be a positive integer.'
+      );
+    }
+
+    return new PagedResult<T>(
+      this.skip(pageIndex * pageSize).take(pageSize),
+      pageIndex,
+      pageSize,
+      this.count(),
+      index => this.paginate(index, pageSize)
+    );
+  }
+
+  /**
+   * Returns each element of a list paired with the one before it, as a tuple or projected by the result selector.
+   * A list with fewer than two elements has no pairs.
+   */
+  public pairwise(): List<[T, T]>;
+  public pairwise<TResult>(
+    result: (previous: T, current: T) => TResult
+  ): List<TResult>;
+  public pairwise<TResult>(
+    result?: (previous: T, current: T) => TResult
+  ): List<TResult> {
+    return this.asSequence()
+      .pairwise(result)
+      .toList();
+  }
+
+  /**
+   * Computes the p-th percentile of a sequence of numbers, where p is between 0 and 100.
+   * A percentile that falls between two values is interpolated linearly, unless another interpolation is given.
+   * Returns NaN for an empty sequence, like average.
+   */
+  public percentile(p: number, interpolation?: QuantileInterpolation): number;
+  public percentile(
+    p: number,
+    transform: (value?: T, index?: number, list?: T[]) => number,
+    interpolation?: QuantileInterpolation
+  ): number;
+  public percentile(
+    p: number,
+    transform?:
+      | ((value?: T, index?: number, list?: T[]) => number)
+      | QuantileInterpolation,
+    interpolation?: QuantileInterpolation
+  ): number {
+    if (!(p >= 0 && p <= 100)) {
+      throw new ArgumentOutOfRangeError(
+        'p',
+        p,
+        'The percentile must be between 0 and 100.'
+      );
+    }
+
+    return this.quantile(p / 100, <any>transform, interpolation);
+  }
+
+  /**
+   * Builds a pivot table, or crosstab: groups the elements by row key and, within each row, by column key,
+   * and computes a value for every cell from its elements with the aggregate function, or an object holding
+   * the value of each of several named aggregate functions. Cells without elements hold the fill value.
+   * Row and column keys are compared with the specified equality comparers, or else with the default one.
+   */
+  public pivot<TRow, TColumn, TValue>(
+    rowKey: (element: T) => TRow,
+    columnKey: (element: T) => TColumn,
+    aggregate: (elements: List<T>) => TValue,
+    fillValue?: TValue,
+    rowComparer?: IEqualityComparer<TRow>,
+    columnComparer?: IEqualityComparer<TColumn>
+  ): PivotTable<TRow, TColumn, TValue>;
+  public pivot<TRow, TColumn, TAggregates extends IPivotAggregates<T>>(
+    rowKey: (element: T) => TRow,
+    columnKey: (element: T) => TColumn,
+    aggregates: TAggregates,
+    fillValue?: PivotAggregateValues<T, TAggregates>,
+    rowComparer?: IEqualityComparer<TRow>,
+    columnComparer?: IEqualityComparer<TColumn>
+  ): PivotTable<TRow, TColumn, PivotAggregateValues<T, TAggregates>>;
+  public pivot<TRow, TColumn>(
+    rowKey: (element: T) => TRow,
+    columnKey: (element: T) => TColumn,
+    aggregate: ((elements: List<T>) => any) | IPivotAggregates<T>,
+    fillValue?: any,
+    rowComparer?: IEqualityComparer<TRow>,
+    columnComparer?: IEqualityComparer<TColumn>
+  ): PivotTable<TRow, TColumn, any> {
+    ArgumentNullError.throwIfNull(rowKey, 'rowKey');
+    ArgumentNullError.throwIfNull(columnKey, 'columnKey');
+    ArgumentNullError.throwIfNull(aggregate, 'aggregate');
+
+    const rowIndexes = new Dictionary<TRow, number>(rowComparer);
+    const columnIndexes = new Dictionary<TColumn, number>(columnComparer);
+    const indexOf = <TKey>(indexes: Dictionary<TKey, number>, key: TKey) => {
+      const [found, index] = indexes.tryGetValue(key);
+      if (found) {
+        return index;
+      }
+      indexes.add(key, indexes.count());
+
+      return indexes.count() - 1;
+    };
+    const cells: T[][][] = [];
+    this.forEach(element => {
+      const i = indexOf(rowIndexes, rowKey(element));
+      const j = indexOf(columnIndexes, columnKey(element));
+      const row = cells[i] || (cells[i] = []);
+      (row[j] || (row[j] = [])).push(element);
+    });
+    const compute =
+      typeof aggregate === 'function'
+        ? aggregate
+        : (elements: List<T>) =>
+            Object.keys(aggregate).reduce((result, name) => {
+              result[name] = aggregate[name](elements);
+
+              return result;
+            }, {});
+    const values = cells.map(row =>
+      columnIndexes
+        .select((_, j) => (row[j] ? compute(adopt<T>(row[j])) : fillValue))
+        .toArray()
+    );
+
+    return new PivotTable(
+      rowIndexes.keys,
+      columnIndexes.keys,
+      values,
+      rowIndexes,
+      columnIndexes
+    );
+  }
+
+  /**
+   * Computes the q-quantile of a sequence of numbers, where q is between 0 and 1.
+   * A quantile that falls between two values is interpolated linearly, unless another interpolation is given.
+   * Returns NaN for an empty sequence, like average.
+   */
+  public quantile(q: number, interpolation?: QuantileInterpolation): number;
+  public quantile(
+    q: number,
+    transform: (value?: T, index?: number, list?: T[]) => number,
+    interpolation?: QuantileInterpolation
+  ): number;
+  public quantile(
+    q: number,
+    transform?:
+      | ((value?: T, index?: number, list?: T[]) => number)
+      | QuantileInterpolation,
+    interpolation?: QuantileInterpolation
+  ): number {
+    return typeof transform === 'function'
+      ? quantile(this.toNumbers(transform), q, interpolation)
+      : quantile(this.toNumbers(), q, transform);
   }
 
   /**
@@ -421,6 +1053,8 @@ class List<T> {
   public removeAll(
     predicate: (value?: T, index?: number, list?: T[]) => boolean
   ): List<T> {
+    ArgumentNullError.throwIfNull(predicate, 'predicate');
+
     return this.where(negate(predicate));
   }
 
@@ -428,14 +1062,141 @@ class List<T> {
    * Removes the element at the specified index of the List<T>.
    */
   public removeAt(index: number): void {
-    this._elements.splice(index, 1);
+    if (index < 0 || index >= this._elements.length) {
+      throw new ArgumentOutOfRangeError(
+        'index',
+        index,
+        'Index is out of range.',
+        this.count()
+      );
+    }
+
+    this.splice(index, 1, []);
   }
 
   /**
-   * Reverses the order of the elements in the entire List<T>.
+   * Returns a new List<T> with the elements in reverse order, leaving the List<T> unchanged.
    */
   public reverse(): List<T> {
-    return new List<T>(this._elements.reverse());
+    return adopt<T>(this._elements.slice().reverse());
+  }
+
+  /**
+   * Correlates the elements of two sequences based on matching keys, keeping the elements of the given list that have no match.
+   * Each element of the given list is paired with every matching element of this list, in order,
+   * or else with a default value, which is null unless specified.
+   * Keys are compared with a specified equality comparer, or else structurally.
+   */
+  public rightJoin<U, TKey, TResult>(
+    list: List<U>,
+    key1: (key: T) => TKey,
+    key2: (key: U) => TKey,
+    result: (first: T, second: U) => TResult,
+    defaultValue: T = null,
+    comparer: IEqualityComparer<TKey> = EqualityComparer.STRUCTURAL
+  ): List<TResult> {
+    ArgumentNullError.throwIfNull(list, 'list');
+    ArgumentNullError.throwIfNull(result, 'result');
+
+    return list.leftJoin(
+      this,
+      key2,
+      key1,
+      (y, x) => result(x, y),
+      defaultValue,
+      comparer
+    );
+  }
+
+  /**
+   * Computes the running average of a sequence of numbers: for each element, the average of the values so far.
+   */
+  public runningAverage(summation?: AverageSummation): List<number>;
+  public runningAverage(
+    transform: (value?: T, index?: number, list?: T[]) => number,
+    summation?: AverageSummation
+  ): List<number>;
+  public runningAverage(
+    transform?:
+      | ((value?: T, index?: number, list?: T[]) => number)
+      | AverageSummation,
+    summation?: AverageSummation
+  ): List<number> {
+    return this.runningSum(<any>transform, summation).select(
+      (total, index) => total / (index + 1)
+    );
+  }
+
+  /**
+   * Computes the running sum of a sequence of numbers: for each element, the sum of the values so far,
+   * added up as sum does.
+   */
+  public runningSum(summation: 'bigint'): List<any>;
+  public runningSum(
+    transform: (value?: T, index?: number, list?: T[]) => any,
+    summation: 'bigint'
+  ): List<any>;
+  public runningSum(summation?: Summation): List<number>;
+  public runningSum(
+    transform: (value?: T, index?: number, list?: T[]) => number,
+    summation?: Summation
+  ): List<number>;
+  public runningSum(
+    transform?:
+      | ((value?: T, index?: number, list?: T[]) => number)
+      | Summation,
+    summation?: Summation
+  ): List<any> {
+    const values: any[] =
+      typeof transform === 'function'
+        ? this._elements.map(transform)
+        : this._elements;
+    const mode = typeof transform === 'function' ? summation : transform;
+    const add = runningTotal(mode);
+
+    return adopt<any>(this.toSummands(values, mode).map(add));
+  }
+
+  /**
+   * Computes the standard deviation of a sample of numbers, using n - 1 as divisor.
+   * Returns NaN when the sequence has fewer than two elements.
+   */
+  public sampleStandardDeviation(): number;
+  public sampleStandardDeviation(
+    transform: (value?: T, index?: number, list?: T[]) => number
+  ): number;
+  public sampleStandardDeviation(
+    transform?: (value?: T, index?: number, list?: T[]) => number
+  ): number {
+    return Math.sqrt(this.sampleVariance(transform));
+  }
+
+  /**
+   * Computes the variance of a sample of numbers, using n - 1 as divisor.
+   * Returns NaN when the sequence has fewer than two elements.
+   */
+  public sampleVariance(): number;
+  public sampleVariance(
+    transform: (value?: T, index?: number, list?: T[]) => number
+  ): number;
+  public sampleVariance(
+    transform?: (value?: T, index?: number, list?: T[]) => number
+  ): number {
+    return variance(this.toNumbers(transform), true);
+  }
+
+  /**
+   * Applies an accumulator function over a sequence, starting from the seed, and returns every intermediate
+   * accumulated value: one for each element, the last of which is the result of aggregate.
+   */
+  public scan<U>(
+    accumulator: (accum: U, value: T, index: number) => U,
+    seed: U
+  ): List<U> {
+    ArgumentNullError.throwIfNull(accumulator, 'accumulator');
+    let accum = seed;
+
+    return this.select((x, i) => (accum = accumulator(accum, x, i)));
   }
 
   /**
@@ -444,7 +1205,9 @@ class List<T> {
   public select<TOut>(
     selector: (element: T, index: number) => TOut
   ): List<TOut> {
-    return new List<TOut>(this._elements.map(selector));
+    ArgumentNullError.throwIfNull(selector, 'selector');
+
+    return adopt<TOut>(this._elements.map(selector));
   }
 
   /**
@@ -453,6 +1216,8 @@ class List<T> {
   public selectMany<TOut extends List<any>>(
     selector: (element: T, index: number) => TOut
   ): TOut {
+    ArgumentNullError.throwIfNull(selector, 'selector');
+
     return this.aggregate(
       (ac, v, i) => {
         ac.addRange(
@@ -468,11 +1233,18 @@ class List<T> {
   }
 
   /**
-   * Determines whether two sequences are equal by comparing the elements by using the default equality comparer for their type.
+   * Determines whether two sequences are equal by comparing the elements by using the default equality comparer
+   * for their type, or a specified equality comparer.
    */
-  public sequenceEqual(list: List<T>): boolean {
-    return !!this._elements.reduce(
-      (x, y, z) => (list._elements[z] === y ? x : undefined)
+  public sequenceEqual(
+    list: List<T>,
+    comparer: IEqualityComparer<T> = EqualityComparer.DEFAULT
+  ): boolean {
+    ArgumentNullError.throwIfNull(list, 'list');
+
+    return (
+      this.count() === list.count() &&
+      this.all((x, i) => comparer.equals(x, list._elements[i]))
     );
   }
 
@@ -482,8 +1254,12 @@ class List<T> {
   public single(
     predicate?: (value?: T, index?: number, list?: T[]) => boolean
   ): T {
-    if (this.count(predicate) !== 1) {
-      throw new Error('The collection does not contain exactly one element.');
+    const count = this.count(predicate);
+    if (count !== 1) {
+      throw new InvalidOperationError(
+        'The collection does not contain exactly one element.',
+        count
+      );
     } else {
       return this.first(predicate);
     }
@@ -503,7 +1279,7 @@ class List<T> {
    * Bypasses a specified number of elements in a sequence and then returns the remaining elements.
    */
   public skip(amount: number): List<T> {
-    return new List<T>(this._elements.slice(Math.max(0, amount)));
+    return adopt<T>(this._elements.slice(Math.max(0, amount)));
   }
 
   /**
@@ -512,6 +1288,8 @@ class List<T> {
   public skipWhile(
     predicate: (value?: T, index?: number, list?: T[]) => boolean
   ): List<T> {
+    ArgumentNullError.throwIfNull(predicate, 'predicate');
+
     return this.skip(
       this.aggregate(
         (ac, val) => (predicate(this.elementAt(ac)) ? ++ac : ac),
@@ -520,27 +1298,57 @@ class List<T> {
     );
   }
 
+  /**
+   * Computes the population standard deviation of a sequence of numbers.
+   * Returns NaN for an empty sequence, like average.
+   */
+  public standardDeviation(): number;
+  public standardDeviation(
+    transform: (value?: T, index?: number, list?: T[]) => number
+  ): number;
+  public standardDeviation(
+    transform?: (value?: T, index?: number, list?: T[]) => number
+  ): number {
+    return Math.sqrt(this.variance(transform));
+  }
+
   /**
    * Computes the sum of the sequence of number values that are obtained by invoking
    * a transform function on each element of the input sequence.
+   * Compensated summation keeps large sums of floating-point values accurate, and bigint summation
+   * returns a bigint, converting every value with BigInt.
    */
-  public sum(): number;
+  // TypeScript 2.9 has no bigint type, so bigint sums are typed as any
+  public sum(summation: 'bigint'): any;
   public sum(
-    transform: (value?: T, index?: number, list?: T[]) => number
+    transform: (value?: T, index?: number, list?: T[]) => any,
+    summation: 'bigint'
+  ): any;
+  public sum(summation?: Summation): number;
+  public sum(
+    transform: (value?: T, index?: number, list?: T[]) => number,
+    summation?: Summation
   ): number;
   public sum(
-    transform?: (value?: T, index?: number, list?: T[]) => number
-  ): number {
-    return transform
-      ? this.select(transform).sum()
-      : this.aggregate((ac, v) => (ac += +v), 0);
+    transform?:
+      | ((value?: T, index?: number, list?: T[]) => number)
+      | Summation,
+    summation?: Summation
+  ): any {
+    const values: any[] =
+      typeof transform === 'function'
+        ? this._elements.map(transform)
+        : this._elements;
+    const mode = typeof transform === 'function' ? summation : transform;
+
+    return sum(this.toSummands(values, mode), mode);
   }
 
   /**
    * Returns a specified number of contiguous elements from the start of a sequence.
    */
   public take(amount: number): List<T> {
-    return new List<T>(this._elements.slice(0, Math.max(0, amount)));
+    return adopt<T>(this._elements.slice(0, Math.max(0, amount)));
   }
 
   /**
@@ -549,6 +1357,8 @@ class List<T> {
   public takeWhile(
     predicate: (value?: T, index?: number, list?: T[]) => boolean
   ): List<T> {
+    ArgumentNullError.throwIfNull(predicate, 'predicate');
+
     return this.take(
       this.aggregate(
         (ac, val) => (predicate(this.elementAt(ac)) ? ++ac : ac),
@@ -561,36 +1371,58 @@ class List<T> {
    * Copies the elements of the List<T> to a new array.
    */
   public toArray(): T[] {
-    return this._elements;
+    return this._elements.slice();
   }
 
   /**
-   * Creates a Dictionary<TKey, TValue> from a List<T> according to a specified key selector function.
+   * Writes the elements of the List<T> as CSV text, one record for each, after a header row unless turned off
+   * by the options. The columns are property names or columns with a header and a function computing their field,
+   * and default to the own enumerable properties of the elements.
+   */
+  public toCsv(
+    columns?: Array<(keyof T & string) | ICsvColumn<T>>,
+    options?: ICsvWriteOptions
+  ): string {
+    return writeCsv(this._elements, columns, options);
+  }
+
+  /**
+   * Creates a Dictionary<TKey, TValue> from a List<T> according to a specified key selector function,
+   * an optional element selector function and an optional equality comparer for the keys.
+   * Throws if the key selector produces duplicate keys.
    */
   public toDictionary<TKey>(
-    key: (key: T) => TKey
-  ): List<{ Key: TKey; Value: T }>;
+    key: (key: T) => TKey,
+    comparer?: IEqualityComparer<TKey>
+  ): Dictionary<TKey, T>;
   public toDictionary<TKey, TValue>(
     key: (key: T) => TKey,
-    value: (value: T) => TValue
-  ): List<{ Key: TKey; Value: T | TValue }>;
+    value: (value: T) => TValue,
+    comparer?: IEqualityComparer<TKey>
+  ): Dictionary<TKey, TValue>;
   public toDictionary<TKey, TValue>(
     key: (key: T) => TKey,
-    value?: (value: T) => TValue
-  ): List<{ Key: TKey; Value: T | TValue }> {
-    return this.aggregate((dicc, v, i) => {
-      dicc[
-        this.select(key)
-          .elementAt(i)
-          .toString()
-      ] = value ? this.select(value).elementAt(i) : v;
-      dicc.add({
-        Key: this.select(key).elementAt(i),
-        Value: value ? this.select(value).elementAt(i) : v
-      });
+    value?: ((value: T) => TValue) | IEqualityComparer<TKey>,
+    comparer?: IEqualityComparer<TKey>
+  ): Dictionary<TKey, T | TValue> {
+    ArgumentNullError.throwIfNull(key, 'key');
+
+    const element = typeof value === 'function' ? value : (v: T) => v;
+    const keyComparer =
+      typeof value === 'function' || value === undefined ? comparer : value;
+
+    return this.aggregate((dicc, v) => {
+      dicc.add(key(v), element(v));
 
       return dicc;
-    },                    new List<{ Key: TKey; Value: T | TValue }>());
+    },                    new Dictionary<TKey, T | TValue>(keyComparer));
+  }
+
+  /**
+   * Returns the elements to write to JSON in place of the List<T>, so that JSON.stringify writes it as an array.
+   */
+  public toJSON(): T[] {
+    return this.toArray();
   }
 
   /**
@@ -601,20 +1433,119 @@ class List<T> {
   }
 
   /**
-   * Creates a Lookup<TKey, TElement> from an IEnumerable<T> according to specified key selector and element selector functions.
+   * Creates a Lookup<TKey, TElement> from an IEnumerable<T> according to specified key selector and element selector functions,
+   * optionally comparing keys by using a specified equality comparer.
    */
-  public toLookup<TResult>(
-    keySelector: (key: T) => string | number,
-    elementSelector: (element: T) => TResult
-  ): { [key: string]: TResult[] } {
-    return this.groupBy(keySelector, elementSelector);
+  public toLookup<TKey, TElement = T>(
+    keySelector: (key: T) => TKey,
+    elementSelector?: (element: T) => TElement,
+    comparer?: IEqualityComparer<TKey>
+  ): Lookup<TKey, TElement> {
+    ArgumentNullError.throwIfNull(keySelector, 'keySelector');
+
+    return Lookup.create(this, keySelector, elementSelector, comparer);
   }
 
   /**
-   * Produces the set union of two sequences by using the default equality comparer.
+   * Builds a tree from a flat list of elements that refer to their parent by key, and returns its roots.
+   * Elements whose parent key is null or undefined, or matches no element, are roots; the children of every node
+   * keep the order of the list. Throws if two elements have the same key or if the parent keys form a cycle.
    */
-  public union(list: List<T>): List<T> {
-    return this.concat(list).distinct();
+  public toTree<TKey>(
+    idSelector: (element: T) => TKey,
+    parentSelector: (element: T) => TKey,
+    comparer?: IEqualityComparer<TKey>
+  ): List<TreeNode<T>> {
+    ArgumentNullError.throwIfNull(idSelector, 'idSelector');
+    ArgumentNullError.throwIfNull(parentSelector, 'parentSelector');
+
+    const nodes = this.select(x => new TreeNode<T>(x));
+    const ids = nodes.toDictionary(x => idSelector(x.value), comparer);
+    const roots = nodes.where(node => {
+      const parentId = parentSelector(node.value);
+      const [found, parent] =
+        parentId == null ? [false, undefined] : ids.tryGetValue(parentId);
+      if (found) {
+        node.parent = parent;
+        parent.children.add(node);
+      }
+
+      return !found;
+    });
+    if (roots.flatten(x => x.children).count() < nodes.count()) {
+      throw new InvalidOperationError('The parent keys form a cycle.');
+    }
+
+    return roots;
+  }
+
+  /**
+   * Traverses a hierarchy breadth-first, level by level: returns the elements of this list, then all of
+   * their children, which are found by the children selector, then all of their grandchildren, and so on.
+   * Every element comes with its depth, its parent and its path from the root.
+   */
+  public traverseBreadthFirst(
+    childrenSelector: (element: T) => Iterable<T>
+  ): List<ITraversalNode<T>> {
+    ArgumentNullError.throwIfNull(childrenSelector, 'childrenSelector');
+
+    return this.asSequence()
+      .traverseBreadthFirst(childrenSelector)
+      .toList();
+  }
+
+  /**
+   * Traverses a hierarchy depth-first: returns each element of this list followed by all of its descendants,
+   * which are found by the children selector, each before its own children.
+   * Every element comes with its depth, its parent and its path from the root.
+   */
+  public traverseDepthFirst(
+    childrenSelector: (element: T) => Iterable<T>
+  ): List<ITraversalNode<T>> {
+    ArgumentNullError.throwIfNull(childrenSelector, 'childrenSelector');
+
+    return this.asSequence()
+      .traverseDepthFirst(childrenSelector)
+      .toList();
+  }
+
+  /**
+   * Produces the set union of two sequences, comparing values like distinct does.
+   * Returns the distinct elements of this list followed by those of the given list that are not in it yet.
+   */
+  public union(list: List<T>, comparer?: IEqualityComparer<T>): List<T> {
+    ArgumentNullError.throwIfNull(list, 'list');
+
+    return this.concat(list).distinct(comparer);
+  }
+
+  /**
+   * Produces the set union of two sequences according to a specified key selector function,
+   * keeping the first element for each key: those of this list first, then those of the given list.
+   * Keys are compared with a specified equality comparer, or else structurally.
+   */
+  public unionBy<TKey>(
+    list: List<T>,
+    keySelector: (key: T) => TKey,
+    comparer: IEqualityComparer<TKey> = EqualityComparer.STRUCTURAL
+  ): List<T> {
+    ArgumentNullError.throwIfNull(list, 'list');
+
+    return this.concat(list).distinctBy(keySelector, comparer);
+  }
+
+  /**
+   * Computes the population variance of a sequence of numbers.
+   * Returns NaN for an empty sequence, like average.
+   */
+  public variance(): number;
+  public variance(
+    transform: (value?: T, index?: number, list?: T[]) => number
+  ): number;
+  public variance(
+    transform?: (value?: T, index?: number, list?: T[]) => number
+  ): number {
+    return variance(this.toNumbers(transform), false);
   }
 
   /**
@@ -623,7 +1554,23 @@ class List<T> {
   public where(
     predicate: (value?: T, index?: number, list?: T[]) => boolean
   ): List<T> {
-    return new List<T>(this._elements.filter(predicate));
+    ArgumentNullError.throwIfNull(predicate, 'predicate');
+
+    return adopt<T>(this._elements.filter(predicate));
+  }
+
+  /**
+   * Returns sliding windows of the given size over a list, starting a new window every step elements.
+   * Windows at the end that are shorter than the size are left out, unless partial windows are asked for.
+   */
+  public window(
+    size: number,
+    step: number = 1,
+    partial: boolean = false
+  ): List<List<T>> {
+    return this.asSequence()
+      .window(size, step, partial)
+      .toList();
   }
 
   /**
@@ -633,32 +1580,150 @@ class List<T> {
     list: List<U>,
     result: (first: T, second: U) => TOut
   ): List<TOut> {
+    ArgumentNullError.throwIfNull(list, 'list');
+    ArgumentNullError.throwIfNull(result, 'result');
+
     return list.count() < this.count()
       ? list.select((x, y) => result(this.elementAt(y), x))
       : this.select((x, y) => result(x, list.elementAt(y)));
   }
+
+  /**
+   * Replaces deleteCount elements from the start index with the given ones. Every change to the elements
+   * goes through here, so that the secondary indexes are kept up to date; they are all checked before anything changes.
+   */
+  protected splice(start: number, deleteCount: number, elements: T[]): void {
+    if (this.indexes) {
+      const indexes = Array.from(this.indexes.values());
+      indexes
+        .map(index => index.check(start, deleteCount, elements))
+        .forEach((keys, i) =>
+          indexes[i].splice(start, deleteCount, elements, keys)
+        );
+    }
+    if (start === this._elements.length) {
+      this._elements.push(...elements);
+    } else {
+      this._elements.splice(start, deleteCount, ...elements);
+    }
+  }
+
+  // converts the values to numbers unless they are added up as bigints, as bigints can't be converted
+  private toSummands(values: any[], summation: Summation): any[] {
+    if (summation === 'bigint') {
+      return values;
+    }
+    // TypeScript 2.9 does not know the 'bigint' type name, so typeof is widened to string
+    if (values.some(x => <string>typeof x === 'bigint')) {
+      throw new ArgumentError(
+        "The values include bigints, which can only be added up with the 'bigint' summation.",
+        'summation'
+      );
+    }
+
+    return values.map(x => +x);
+  }
+
+  private toNumbers(
+    transform?: (value?: T, index?: number, list?: T[]) => number
+  ): number[] {
+    return transform
+      ? this._elements.map(transform)
+      : this._elements.map(x => +x);
+  }
 }
 
 /**
  * Represents a sorted sequence. The methods of this class are implemented by using deferred execution.
  * The immediate return value is an object that stores all the information that is required to perform the action.
  * The query represented by this method is not executed until the object is enumerated either by
- * calling its ToDictionary, ToLookup, ToList or ToArray methods
+ * calling its ToDictionary, ToLookup, ToList or ToArray methods.
+ * Sorting is stable and works on a copy of the elements taken when the ordering is created, so the source
+ * List<T> is never reordered and its later changes are not reflected.
  */
-class OrderedList<T> extends List<T> {
-  constructor(elements: T[], private comparer: (a: T, b: T) => number) {
-    super(elements);
-    this._elements.sort(this.comparer);
+export class OrderedList<T> extends List<T> {
+  private sorted: T[];
+
+  constructor(
+    private readonly unsorted: T[],
+    private readonly comparer: (a: T, b: T) => number,
+    private readonly descending: boolean
+  ) {
+    super();
+    this.sorted = undefined;
+  }
+
+  // sorts a copy of the source the first time the elements are read
+  protected get _elements(): T[] {
+    if (!this.sorted) {
+      this.sorted = stableSort(this.unsorted, this.comparer);
+    }
+
+    return this.sorted;
+  }
+
+  protected set _elements(elements: T[]) {
+    this.sorted = elements;
+  }
+
+  /**
+   * Returns the size elements that come after the cursor, the key of the last element of the previous page,
+   * or the first page when the cursor is null or undefined. Unlike paginate, the pages stay stable when elements
+   * are added or removed before the cursor. The keys must follow the order of the list, so they are compared
+   * in the direction of its first ordering, or else by the comparer.
+   */
+  public pageAfter<TKey>(
+    cursorKeySelector: (element: T) => TKey,
+    cursor: TKey,
+    size: number,
+    comparer = keyComparer<TKey>(x => x, this.descending)
+  ): ICursorPage<T, TKey> {
+    ArgumentNullError.throwIfNull(cursorKeySelector, 'cursorKeySelector');
+    if (!(size >= 1) || size % 1 !== 0) {
+      throw new ArgumentOutOfRangeError(
+        'size',
+        size,
+        'The page size must be a positive integer.'
+      );
+    }
+
+    const elements = this._elements;
+    let start = 0;
+    if (cursor != null) {
+      // binary search for the first element whose key is past the cursor
+      let end = elements.length;
+      while (start < end) {
+        const middle = (start + end) >>> 1;
+        if (comparer(cursorKeySelector(elements[middle]), cursor) > 0) {
+          end = middle;
+        } else {
+          start = middle + 1;
+        }
+      }
+    }
+    const items = adopt<T>(elements.slice(start, start + size));
+
+    return {
+      hasNext: start + size < elements.length,
+      items,
+      nextCursor: items.any() ? cursorKeySelector(items.last()) : cursor
+    };
   }
 
   /**
    * Performs a subsequent ordering of the elements in a sequence in ascending order according to a key.
    * @override
    */
-  public thenBy(keySelector: (key: T) => any): List<T> {
+  public thenBy(
+    keySelector: (key: T) => any,
+    comparer = keyComparer(keySelector, false)
+  ): OrderedList<T> {
+    ArgumentNullError.throwIfNull(keySelector, 'keySelector');
+
     return new OrderedList(
-      this._elements,
-      composeComparers(this.comparer, keyComparer(keySelector, false))
+      this.snapshot(),
+      composeComparers(this.comparer, comparer),
+      this.descending
     );
   }
 
@@ -666,12 +1731,97 @@ class OrderedList<T> extends List<T> {
    * Performs a subsequent ordering of the elements in a sequence in descending order, according to a key.
    * @override
    */
-  public thenByDescending(keySelector: (key: T) => any): List<T> {
+  public thenByDescending(
+    keySelector: (key: T) => any,
+    comparer = keyComparer(keySelector, true)
+  ): OrderedList<T> {
+    ArgumentNullError.throwIfNull(keySelector, 'keySelector');
+
     return new OrderedList(
-      this._elements,
-      composeComparers(this.comparer, keyComparer(keySelector, true))
+      this.snapshot(),
+      composeComparers(this.comparer, comparer),
+      this.descending
     );
   }
+
+  // copies the current elements, including those added since, without sorting them if they were never read
+  private snapshot(): T[] {
+    return this.sorted ? this.sorted.slice() : this.unsorted;
+  }
+}
+
+/**
+ * A read-only view of a List<T>. It exposes the query methods of List<T> but none of its mutators,
+ * nor its secondary indexes, which could not be kept up to date with the changes made through the List<T>.
+ */
+export type ReadOnlyList<T> = Pick<
+  List<T>,
+  Exclude<
+    keyof List<T>,
+    | 'add'
+    | 'addRange'
+    | 'createIndex'
+    | 'dropIndex'
+    | 'insert'
+    | 'lookupBy'
+    | 'remove'
+    | 'removeAt'
+  >
+>;
+
+/**
+ * Wraps the backing array of a List<T> without copying it. The mutators are hidden by the ReadOnlyList<T> type
+ * and throw when reached anyway, for example through a cast.
+ */
+class ReadOnlyListView<T> extends List<T> {
+  constructor(elements: T[]) {
+    super();
+    this._elements = elements;
+  }
+
+  public add(): void {
+    throw new NotSupportedError('Collection is read-only.');
+  }
+
+  public addRange(): void {
+    throw new NotSupportedError('Collection is read-only.');
+  }
+
+  public createIndex(): void {
+    throw new NotSupportedError('Collection is read-only.');
+  }
+
+  public insert(): void {
+    throw new NotSupportedError('Collection is read-only.');
+  }
+
+  public remove(): boolean {
+    throw new NotSupportedError('Collection is read-only.');
+  }
+
+  public removeAt(): void {
+    throw new NotSupportedError('Collection is read-only.');
+  }
+
+  /**
+   * Copies the elements of the view to a new, writable List<T>.
+   * @override
+   */
+  public toList(): List<T> {
+    return new List<T>(this._elements);
+  }
 }
 
+/**
+ * Creates a List<T> over an array that an operator has just built and that nothing else refers to,
+ * without the copy made by the constructor. For the modules of this package; it is not exported from the index.
+ */
+export const adopt = <T>(elements: T[]): List<T> => {
+  const list = new List<T>();
+  // tslint:disable-next-line: no-string-literal
+  list['_elements'] = elements;
+
+  return list;
+};
+
 export default List;
@@ -0,0 +1,207 @@
+import test from 'ava';
+
+import List from './list';
+import ObservableList from './observable-list';
+
+interface IOrder {
+  id: number;
+  region: string;
+  total: number;
+}
+
+const orders = () =>
+  new ObservableList<IOrder>([
+    { id: 1, region: 'north', total: 30 },
+    { id: 2, region: 'south', total: 10 },
+    { id: 3, region: 'north', total: 20 }
+  ]);
+
+test('Where / Select / OrderBy', t => {
+  const source = orders();
+  const ids = source
+    .live()
+    .where(x => x.total >= 20)
+    .orderBy(x => x.total)
+    .select(x => x.id);
+  t.deepEqual(ids.items.toArray(), [3, 1]);
+
+  source.add({ id: 4, region: 'south', total: 25 });
+  t.deepEqual(ids.items.toArray(), [3, 4, 1]);
+  source.set(1, { id: 2, region: 'south', total: 50 });
+  t.deepEqual(ids.items.toArray(), [3, 4, 1, 2]);
+  source.removeAt(0);
+  t.deepEqual(ids.items.toArray(), [3, 4, 2]);
+  source.move(0, 2);
+  t.deepEqual(ids.items.toArray(), [3, 4, 2]);
+  source.batch(() => {
+    source.clear();
+    source.add({ id: 5, region: 'east', total: 5 });
+    source.add({ id: 6, region: 'east', total: 60 });
+  });
+  t.deepEqual([...ids], [6]);
+});
+
+test('OrderBy finds NaN when it is removed or replaced', t => {
+  const source = new ObservableList<number>([3, NaN, 1, NaN, 2]);
+  const sorted = source.live().orderBy(x => x);
+  const sameElements = () =>
+    t.deepEqual(sorted.items.toArray().sort(), source.toArray().sort());
+  source.removeAt(1);
+  sameElements();
+  source.set(2, 4);
+  sameElements();
+  source.set(0, NaN);
+  source.removeAt(0);
+  sameElements();
+  t.is(sorted.count().value, source.count());
+});
+
+test('Only changed elements are evaluated', t => {
+  const source = orders();
+  let calls = 0;
+  const query = source.live().where(x => {
+    calls += 1;
+
+    return x.total > 15;
+  });
+  t.is(calls, 3);
+  source.add({ id: 4, region: 'west', total: 40 });
+  source.removeAt(0);
+  t.is(calls, 4);
+  t.deepEqual(query.items.select(x => x.id).toArray(), [3, 4]);
+});
+
+test('Changes of the results', t => {
+  const source = new ObservableList<number>([1, 2, 3]);
+  const evens = source.live().where(x => x % 2 === 0);
+  const actions: string[] = [];
+  evens.subscribe(x => actions.push(`${x.action}@${x.newStartingIndex}`));
+  source.add(4);
+  source.add(5);
+  source.insert(0, 0);
+  t.deepEqual(actions, ['added@1', 'added@0']);
+});
+
+test('GroupBy', t => {
+  const source = orders();
+  const groups = source.live().groupBy(x => x.region);
+  const summary = () =>
+    groups.items
+      .select(g => `${g.key}:${g.select(x => x.id).toArray().join()}`)
+      .toArray();
+  t.deepEqual(summary(), ['north:1,3', 'south:2']);
+  const replaced: string[] = [];
+  groups.subscribe(x => {
+    if (x.action === 'replaced') {
+      replaced.push(x.newItems[0].key);
+    }
+  });
+  source.insert(1, { id: 4, region: 'north', total: 0 });
+  t.deepEqual(summary(), ['north:1,4,3', 'south:2']);
+  t.deepEqual(replaced, ['north']);
+  source.remove(source.single(x => x.id === 2));
+  t.deepEqual(summary(), ['north:1,4,3']);
+  source.set(2, { id: 3, region: 'north', total: 1 });
+  t.deepEqual(summary(), ['north:1,4,3']);
+  t.deepEqual(replaced, ['north', 'north']);
+  source.set(0, { id: 1, region: 'west', total: 30 });
+  t.deepEqual(summary(), ['west:1', 'north:4,3']);
+  source.move(0, 2);
+  source.move(0, 1);
+  t.deepEqual(summary(), ['north:3,4', 'west:1']);
+  source.insert(0, { id: 5, region: 'south', total: 0 });
+  source.move(3, 1);
+  t.deepEqual(summary(), ['south:5', 'west:1', 'north:3,4']);
+  // the groups are in the same order as after a reset
+  source.batch(() => {
+    source.add(source.last());
+    source.removeAt(source.count() - 1);
+  });
+  t.deepEqual(summary(), ['south:5', 'west:1', 'north:3,4']);
+});
+
+test('Count / Sum', t => {
+  const source = orders();
+  const query = source.live();
+  const count = query.count(x => x.region === 'north');
+  const total = query.where(x => x.region === 'north').sum(x => x.total);
+  const totals: number[] = [];
+  total.subscribe(x => totals.push(x));
+  t.is(count.value, 2);
+  t.is(total.value, 50);
+  source.add({ id: 4, region: 'north', total: 5 });
+  source.add({ id: 5, region: 'south', total: 5 });
+  source.set(0, { id: 1, region: 'north', total: 31 });
+  t.is(count.value, 3);
+  t.is(total.value, 56);
+  t.deepEqual(totals, [55, 56]);
+  source.clear();
+  t.is(count.value, 0);
+  t.is(total.value, 0);
+  t.is(new ObservableList<number>([1, 2]).live().sum().value, 3);
+});
+
+test('Dispose', t => {
+  const source = new ObservableList<number>([1]);
+  const doubled = source.live().select(x => x * 2);
+  const count = doubled.count();
+  doubled.dispose();
+  source.add(2);
+  t.deepEqual(doubled.items.toArray(), [2]);
+  t.is(count.value, 1);
+  count.dispose();
+});
+
+test('Results match the query run again after every change', t => {
+  let seed = 7;
+  const random = (n: number) => {
+    seed = (seed * 16807) % 2147483647;
+
+    return seed % n;
+  };
+  const source = new ObservableList<number>();
+  const run = (list: List<number>) =>
+    list
+      .where(x => x % 3 !== 0)
+      .orderByDescending(x => x % 10)
+      .select(x => x % 10)
+      .toArray();
+  const query = source
+    .live()
+    .where(x => x % 3 !== 0)
+    .orderByDescending(x => x % 10)
+    .select(x => x % 10);
+  const groups = source.live().groupBy(x => x % 4);
+  const sum = source.live().sum();
+  for (let step = 0; step < 300; step += 1) {
+    const count = source.count();
+    switch (count ? random(5) : 0) {
+      case 0:
+        source.insert(random(count + 1), random(100));
+        break;
+      case 1:
+        source.removeAt(random(count));
+        break;
+      case 2:
+        source.set(random(count), random(100));
+        break;
+      case 3:
+        source.move(random(count), random(count));
+        break;
+      default:
+        source.batch(() => {
+          source.add(random(100));
+          source.removeAt(0);
+        });
+    }
+    t.deepEqual(query.items.toArray(), run(source));
+    t.deepEqual(
+      groups.items.select(g => [g.key, g.toArray()]).toArray(),
+      source
+        .groupBy(x => x % 4)
+        .select(g => [g.key, g.toArray()])
+        .toArray()
+    );
+    t.is(sum.value, source.sum());
+  }
+});
@@ -0,0 +1,492 @@
+import EqualityComparer, { IEqualityComparer } from './equality-comparer';
+import { keyComparer, stableSort } from './helpers';
+import { ReadOnlyList } from './list';
+import ObservableList, { IListChangedEvent } from './observable-list';
+import { Dictionary, Grouping } from './sequence';
+
+type Maintainer<TSource, T> = (
+  source: ObservableList<TSource>,
+  results: ObservableList<T>
+) => (event: IListChangedEvent<TSource>) => void;
+
+const RESET: IListChangedEvent<any> = {
+  action: 'reset',
+  newItems: [],
+  newStartingIndex: -1,
+  oldItems: [],
+  oldStartingIndex: -1
+};
+
+// replaces the results with a single change, a reset unless they were empty
+const resetTo = <T>(results: ObservableList<T>, elements: T[]): void => {
+  results.batch(() => {
+    results.clear();
+    results.addRange(elements);
+  });
+};
+
+/**
+ * Represents a value computed from an ObservableList<T> that is kept up to date as the list changes,
+ * such as the count of a LiveQuery<T>.
+ */
+export class LiveValue<T> {
+  private readonly listeners: Array<(value: T) => void> = [];
+  private readonly disconnect: () => void;
+
+  constructor(
+    private current: T,
+    connect: (update: (value: T) => void) => () => void
+  ) {
+    this.disconnect = connect(value => {
+      if (value !== this.current) {
+        this.current = value;
+        this.listeners.slice().forEach(listener => listener(value));
+      }
+    });
+  }
+
+  /**
+   * Gets the current value.
+   */
+  public get value(): T {
+    return this.current;
+  }
+
+  /**
+   * Stops keeping the value up to date.
+   */
+  public dispose(): void {
+    this.disconnect();
+  }
+
+  /**
+   * Calls the listener with the new value every time the value changes,
+   * and returns a function that unsubscribes it.
+   */
+  public subscribe(listener: (value: T) => void): () => void {
+    this.listeners.push(listener);
+
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index !== -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+}
+
+/**
+ * Represents a query over an ObservableList<T> whose results are kept up to date as the list changes,
+ * by applying every change to them instead of running the query again. Every operator returns a new LiveQuery,
+ * so they can be chained, and only calls its selectors for the elements that changed; the elements and the
+ * changes of the results can be read and observed like those of an ObservableList<T>.
+ * A batch update of the source, like any other reset, makes the operators compute their results again.
+ */
+export default class LiveQuery<T> implements Iterable<T> {
+  /**
+   * Creates a LiveQuery<T> whose results are the elements of the ObservableList<T>.
+   */
+  public static from<T>(source: ObservableList<T>): LiveQuery<T> {
+    return new LiveQuery<T>(source, () => undefined);
+  }
+
+  private constructor(
+    private readonly results: ObservableList<T>,
+    private readonly disconnect: () => void
+  ) {}
+
+  /**
+   * Gets a read-only view of the current results.
+   */
+  public get items(): ReadOnlyList<T> {
+    return this.results.asReadOnly();
+  }
+
+  /**
+   * Returns an iterator over the current results.
+   */
+  public [Symbol.iterator](): Iterator<T> {
+    return this.results[Symbol.iterator]();
+  }
+
+  /**
+   * Counts the results, or those that satisfy a condition, and keeps the count up to date.
+   */
+  public count(predicate?: (element: T) => boolean): LiveValue<number> {
+    return this.total(x => (!predicate || predicate(x) ? 1 : 0));
+  }
+
+  /**
+   * Stops keeping the results up to date. The queries chained after this one stop changing as well.
+   */
+  public dispose(): void {
+    this.disconnect();
+  }
+
+  /**
+   * Groups the results by key, in the order of the first element of each group, each group holding its elements
+   * in the order of the results. A group whose elements change replaces itself in the results, so that
+   * the change is raised, and moves when its first element does; a group that loses its last element is removed.
+   * Keys are compared with a specified equality comparer, or else with the default one.
+   */
+  public groupBy<TKey>(
+    keySelector: (element: T) => TKey,
+    comparer?: IEqualityComparer<TKey>
+  ): LiveQuery<Grouping<TKey, T>> {
+    return this.derive(groupByMaintainer(keySelector, comparer));
+  }
+
+  /**
+   * Sorts the results in ascending order according to a key. Elements with equal keys are kept
+   * in the order in which they arrived.
+   */
+  public orderBy(
+    keySelector: (key: T) => any,
+    comparer = keyComparer(keySelector, false)
+  ): LiveQuery<T> {
+    return this.derive(orderByMaintainer(comparer));
+  }
+
+  /**
+   * Sorts the results in descending order according to a key. Elements with equal keys are kept
+   * in the order in which they arrived.
+   */
+  public orderByDescending(
+    keySelector: (key: T) => any,
+    comparer = keyComparer(keySelector, true)
+  ): LiveQuery<T> {
+    return this.derive(orderByMaintainer(comparer));
+  }
+
+  /**
+   * Projects each of the results into a new form.
+   */
+  public select<TOut>(selector: (element: T) => TOut): LiveQuery<TOut> {
+    return this.derive(selectMaintainer(selector));
+  }
+
+  /**
+   * Calls the listener with every change to the results from now on, and returns a function that unsubscribes it.
+   */
+  public subscribe(
+    listener: (event: IListChangedEvent<T>) => void
+  ): () => void {
+    return this.results.subscribe(listener);
+  }
+
+  /**
+   * Computes the sum of the results, or of the numbers obtained by invoking a transform function on them,
+   * and keeps it up to date.
+   */
+  public sum(transform: (element: T) => number = x => +x): LiveValue<number> {
+    return this.total(transform);
+  }
+
+  /**
+   * Filters the results based on a predicate.
+   */
+  public where(predicate: (element: T) => boolean): LiveQuery<T> {
+    return this.derive(whereMaintainer(predicate));
+  }
+
+  private derive<TOut>(maintainer: Maintainer<T, TOut>): LiveQuery<TOut> {
+    const results = new ObservableList<TOut>();
+    const update = maintainer(this.results, results);
+    update(RESET);
+
+    return new LiveQuery<TOut>(results, this.results.subscribe(update));
+  }
+
+  // adds up the contributions of the results, applying only those of the elements that changed
+  private total(contribution: (element: T) => number): LiveValue<number> {
+    const totalOf = (elements: Iterable<T>) => {
+      let result = 0;
+      for (const element of elements) {
+        result += contribution(element);
+      }
+
+      return result;
+    };
+    let total = totalOf(this.results);
+
+    return new LiveValue<number>(total, update =>
+      this.results.subscribe(event => {
+        if (event.action === 'reset') {
+          total = totalOf(this.results);
+        } else if (event.action !== 'moved') {
+          total += totalOf(event.newItems) - totalOf(event.oldItems);
+        }
+        update(total);
+      })
+    );
+  }
+}
+
+const groupByMaintainer = <T, TKey>(
+  keySelector: (element: T) => TKey,
+  comparer: IEqualityComparer<TKey>
+): Maintainer<T, Grouping<TKey, T>> => (source, results) => {
+  interface IGroup {
+    elements: T[];
+    grouping: Grouping<TKey, T>;
+  }
+  const groups = new Dictionary<TKey, IGroup>(comparer);
+  // the group of each element of the source, by index
+  let groupOf: IGroup[] = [];
+  const positionInGroup = (group: IGroup, index: number) => {
+    let position = 0;
+    for (let i = 0; i < index; i += 1) {
+      position += groupOf[i] === group ? 1 : 0;
+    }
+
+    return position;
+  };
+  // groups are kept in the order of their first elements in the source, as they would be rebuilt after a reset
+  const groupIndex = (group: IGroup) => {
+    const before = new Set<IGroup>();
+    for (let i = 0; groupOf[i] !== group; i += 1) {
+      before.add(groupOf[i]);
+    }
+
+    return before.size;
+  };
+  const update = (group: IGroup) => {
+    const index = results.indexOf(group.grouping);
+    results.set(index, group.grouping);
+    const target = groupIndex(group);
+    if (target !== index) {
+      results.move(index, target);
+    }
+  };
+  const add = (index: number, element: T) => {
+    const key = keySelector(element);
+    let [found, group] = groups.tryGetValue(key);
+    if (!found) {
+      const elements: T[] = [];
+      group = { elements, grouping: new Grouping<TKey, T>(key, elements) };
+      groups.add(key, group);
+    }
+    group.elements.splice(positionInGroup(group, index), 0, element);
+    groupOf.splice(index, 0, group);
+    if (found) {
+      update(group);
+    } else {
+      results.insert(groupIndex(group), group.grouping);
+    }
+  };
+  const remove = (index: number) => {
+    const group = groupOf[index];
+    group.elements.splice(positionInGroup(group, index), 1);
+    groupOf.splice(index, 1);
+    if (group.elements.length) {
+      update(group);
+    } else {
+      groups.remove(group.grouping.key);
+      results.removeAt(results.indexOf(group.grouping));
+    }
+  };
+  const replace = (index: number, element: T) => {
+    const group = groupOf[index];
+    const [found, target] = groups.tryGetValue(keySelector(element));
+    if (found && target === group) {
+      group.elements[positionInGroup(group, index)] = element;
+      results.set(results.indexOf(group.grouping), group.grouping);
+    } else {
+      remove(index);
+      add(index, element);
+    }
+  };
+  const move = (from: number, to: number) => {
+    const group = groupOf[from];
+    const [element] = group.elements.splice(positionInGroup(group, from), 1);
+    groupOf.splice(from, 1);
+    groupOf.splice(to, 0, group);
+    group.elements.splice(positionInGroup(group, to), 0, element);
+    update(group);
+  };
+
+  return event => {
+    switch (event.action) {
+      case 'added':
+        event.newItems.forEach((x, i) => add(event.newStartingIndex + i, x));
+        break;
+      case 'removed':
+        event.oldItems.forEach(() => remove(event.oldStartingIndex));
+        break;
+      case 'replaced':
+        event.newItems.forEach((x, i) =>
+          replace(event.newStartingIndex + i, x)
+        );
+        break;
+      case 'moved':
+        move(event.oldStartingIndex, event.newStartingIndex);
+        break;
+      default:
+        groups.clear();
+        groupOf = [];
+        results.batch(() => {
+          results.clear();
+          source.forEach((x, i) => add(i, x));
+        });
+    }
+  };
+};
+
+const orderByMaintainer = <T>(
+  comparer: (a: T, b: T) => number
+): Maintainer<T, T> => (source, results) => {
+  // finds the first index whose element sorts after the element, or also with it when inclusive
+  const search = (element: T, inclusive: boolean) => {
+    let start = 0;
+    let end = results.count();
+    while (start < end) {
+      const middle = (start + end) >>> 1;
+      const order = comparer(results.elementAt(middle), element);
+      if (order > 0 || (inclusive && order === 0)) {
+        end = middle;
+      } else {
+        start = middle + 1;
+      }
+    }
+
+    return start;
+  };
+  // looks from where the element sorts, wrapping around, as a comparer may not order NaN or other values
+  // consistently; elements are matched with SameValueZero so that NaN is found
+  const indexOf = (element: T) => {
+    const count = results.count();
+    const start = search(element, true);
+    for (let i = 0; i < count; i += 1) {
+      const index = (start + i) % count;
+      if (EqualityComparer.DEFAULT.equals(results.elementAt(index), element)) {
+        return index;
+      }
+    }
+
+    return -1;
+  };
+  const fits = (index: number, element: T) =>
+    (index === 0 || comparer(results.elementAt(index - 1), element) <= 0) &&
+    (index === results.count() - 1 ||
+      comparer(element, results.elementAt(index + 1)) <= 0);
+
+  return event => {
+    switch (event.action) {
+      case 'added':
+        event.newItems.forEach(x => results.insert(search(x, false), x));
+        break;
+      case 'removed':
+        event.oldItems.forEach(x => results.removeAt(indexOf(x)));
+        break;
+      case 'replaced':
+        event.newItems.forEach((x, i) => {
+          const index = indexOf(event.oldItems[i]);
+          if (fits(index, x)) {
+            results.set(index, x);
+          } else {
+            results.removeAt(index);
+            results.insert(search(x, false), x);
+          }
+        });
+        break;
+      case 'moved':
+        break;
+      default:
+        resetTo(results, stableSort(source.toArray(), comparer));
+    }
+  };
+};
+
+const selectMaintainer = <T, TOut>(
+  selector: (element: T) => TOut
+): Maintainer<T, TOut> => (source, results) => event => {
+  switch (event.action) {
+    case 'added':
+      event.newItems.forEach((x, i) =>
+        results.insert(event.newStartingIndex + i, selector(x))
+      );
+      break;
+    case 'removed':
+      event.oldItems.forEach(() => results.removeAt(event.oldStartingIndex));
+      break;
+    case 'replaced':
+      event.newItems.forEach((x, i) =>
+        results.set(event.newStartingIndex + i, selector(x))
+      );
+      break;
+    case 'moved':
+      results.move(event.oldStartingIndex, event.newStartingIndex);
+      break;
+    default:
+      resetTo(results, source.toArray().map(x => selector(x)));
+  }
+};
+
+const whereMaintainer = <T>(
+  predicate: (element: T) => boolean
+): Maintainer<T, T> => (source, results) => {
+  // whether each element of the source, by index, is in the results
+  let included: boolean[] = [];
+  const position = (index: number) => {
+    let count = 0;
+    for (let i = 0; i < index; i += 1) {
+      count += included[i] ? 1 : 0;
+    }
+
+    return count;
+  };
+  const add = (
+    index: number,
+    element: T,
+    isIncluded: boolean = predicate(element)
+  ) => {
+    included.splice(index, 0, isIncluded);
+    if (isIncluded) {
+      results.insert(position(index), element);
+    }
+  };
+  const remove = (index: number) => {
+    if (included[index]) {
+      results.removeAt(position(index));
+    }
+    included.splice(index, 1);
+  };
+  const move = (from: number, to: number) => {
+    const wasIncluded = included[from];
+    const start = position(from);
+    included.splice(from, 1);
+    included.splice(to, 0, wasIncluded);
+    if (wasIncluded) {
+      results.move(start, position(to));
+    }
+  };
+
+  return event => {
+    switch (event.action) {
+      case 'added':
+        event.newItems.forEach((x, i) => add(event.newStartingIndex + i, x));
+        break;
+      case 'removed':
+        event.oldItems.forEach(() => remove(event.oldStartingIndex));
+        break;
+      case 'replaced':
+        event.newItems.forEach((x, i) => {
+          const index = event.newStartingIndex + i;
+          const isIncluded = predicate(x);
+          if (included[index] && isIncluded) {
+            results.set(position(index), x);
+          } else {
+            remove(index);
+            add(index, x, isIncluded);
+          }
+        });
+        break;
+      case 'moved':
+        move(event.oldStartingIndex, event.newStartingIndex);
+        break;
+      default:
+        included = source.select(x => predicate(x)).toArray();
+        resetTo(results, source.where((x, i) => included[i]).toArray());
+    }
+  };
+};
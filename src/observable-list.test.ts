@@ -0,0 +1,152 @@
+import test from 'ava';
+
+import { ArgumentError, ArgumentOutOfRangeError } from './errors';
+import List from './list';
+import ObservableList, { IListChangedEvent } from './observable-list';
+
+const observe = <T>(list: ObservableList<T>) => {
+  const events: Array<IListChangedEvent<T>> = [];
+  list.subscribe(event => events.push(event));
+
+  return events;
+};
+
+test('Add / AddRange / Insert', t => {
+  const list = new ObservableList<string>(['a']);
+  const events = observe(list);
+  list.add('b');
+  list.addRange(['c', 'd']);
+  list.addRange([]);
+  list.insert(0, 'z');
+  t.deepEqual(list.toArray(), ['z', 'a', 'b', 'c', 'd']);
+  t.deepEqual(events, [
+    {
+      action: 'added',
+      newItems: ['b'],
+      newStartingIndex: 1,
+      oldItems: [],
+      oldStartingIndex: -1
+    },
+    {
+      action: 'added',
+      newItems: ['c', 'd'],
+      newStartingIndex: 2,
+      oldItems: [],
+      oldStartingIndex: -1
+    },
+    {
+      action: 'added',
+      newItems: ['z'],
+      newStartingIndex: 0,
+      oldItems: [],
+      oldStartingIndex: -1
+    }
+  ]);
+});
+
+test('Remove / RemoveAt / Set / Move / Clear', t => {
+  const list = new ObservableList<string>(['a', 'b', 'c', 'd']);
+  const events = observe(list);
+  t.true(list.remove('b'));
+  t.false(list.remove('x'));
+  list.removeAt(0);
+  list.set(1, 'D');
+  list.move(1, 0);
+  list.move(0, 0);
+  t.deepEqual(list.toArray(), ['D', 'c']);
+  list.clear();
+  list.clear();
+  t.is(list.count(), 0);
+  t.deepEqual(
+    events.map(x => [
+      x.action,
+      x.oldStartingIndex,
+      x.oldItems.join(),
+      x.newStartingIndex,
+      x.newItems.join()
+    ]),
+    [
+      ['removed', 1, 'b', -1, ''],
+      ['removed', 0, 'a', -1, ''],
+      ['replaced', 1, 'd', 1, 'D'],
+      ['moved', 1, 'D', 0, 'D'],
+      ['reset', -1, '', -1, '']
+    ]
+  );
+});
+
+test('Invalid changes raise nothing', t => {
+  const list = new ObservableList<number>([1]);
+  const events = observe(list);
+  t.throws(() => list.removeAt(1), ArgumentOutOfRangeError);
+  t.throws(() => list.insert(3, 0), ArgumentOutOfRangeError);
+  t.throws(() => list.set(-1, 0), ArgumentOutOfRangeError);
+  t.throws(() => list.move(0, 1), ArgumentOutOfRangeError);
+  t.deepEqual(list.removeAll(x => x === 1), new List<number>());
+  t.is(list.count(), 1);
+  t.is(events.length, 0);
+});
+
+test('Subscribe / Unsubscribe', t => {
+  const list = new ObservableList<number>();
+  const seen: number[] = [];
+  const listener = (event: IListChangedEvent<number>) =>
+    seen.push(event.newItems[0]);
+  const unsubscribe = list.subscribe(listener);
+  const events = observe(list);
+  list.add(1);
+  unsubscribe();
+  list.add(2);
+  t.deepEqual(seen, [1]);
+  t.is(events.length, 2);
+  t.false(list.unsubscribe(listener));
+});
+
+test('Batch updates', t => {
+  const list = new ObservableList<number>([1, 2, 3]);
+  const events = observe(list);
+  list.batch(() => {
+    list.add(4);
+    list.batch(() => list.removeAt(0));
+    t.is(events.length, 0);
+  });
+  t.deepEqual(events.map(x => x.action), ['reset']);
+  t.deepEqual(list.toArray(), [2, 3, 4]);
+
+  list.batch(() => list.add(5));
+  t.deepEqual(events[1].newItems, [5]);
+  list.batch(() => undefined);
+  t.is(events.length, 2);
+
+  t.throws(() =>
+    list.batch(() => {
+      list.add(6);
+      throw new Error('boom');
+    })
+  );
+  t.is(events[2].action, 'added');
+});
+
+test('Query methods return plain lists', t => {
+  const list = new ObservableList<number>([3, 1, 2]);
+  const query = list.where(x => x > 1).orderBy(x => x);
+  t.false(query instanceof ObservableList);
+  list.add(4);
+  t.deepEqual(query.toArray(), [2, 3]);
+});
+
+test('Indexes follow every change', t => {
+  const list = new ObservableList<string>(['ab', 'ac', 'b']);
+  list.createIndex('initial', x => x[0]);
+  list.createIndex('word', x => x, { unique: true });
+  list.set(2, 'ad');
+  list.move(2, 0);
+  t.deepEqual(list.lookupBy('initial', 'a').toArray(), ['ad', 'ab', 'ac']);
+  t.is(list.lookupBy('initial', 'b').count(), 0);
+  t.throws(() => list.set(0, 'ab'), ArgumentError);
+  t.is(list.first(), 'ad');
+  list.clear();
+  t.is(list.lookupBy('initial', 'a').count(), 0);
+  list.add('ab');
+  t.is(list.lookupBy('word', 'ab').count(), 1);
+});
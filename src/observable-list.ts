@@ -0,0 +1,203 @@
+import { ArgumentOutOfRangeError } from './errors';
+import List from './list';
+import LiveQuery from './live-query';
+
+/**
+ * The kinds of change to an ObservableList<T>. A reset means that the list changed too much to be described
+ * item by item, as when it is cleared or when a batch update made several changes.
+ */
+export type ListChangeAction =
+  | 'added'
+  | 'moved'
+  | 'removed'
+  | 'replaced'
+  | 'reset';
+
+/**
+ * Describes a change to an ObservableList<T>, like NotifyCollectionChangedEventArgs in .NET: the items that were
+ * added, moved or put in place of others, and those that were removed, moved or replaced, each with the index
+ * of the first of them, which is -1 when there are none.
+ */
+export interface IListChangedEvent<T> {
+  action: ListChangeAction;
+  newItems: T[];
+  newStartingIndex: number;
+  oldItems: T[];
+  oldStartingIndex: number;
+}
+
+const changed = <T>(
+  action: ListChangeAction,
+  newItems: T[] = [],
+  newStartingIndex: number = -1,
+  oldItems: T[] = [],
+  oldStartingIndex: number = -1
+): IListChangedEvent<T> => ({
+  action,
+  newItems,
+  newStartingIndex,
+  oldItems,
+  oldStartingIndex
+});
+
+/**
+ * Represents a List<T> that notifies its listeners whenever elements are added, removed, moved or replaced,
+ * or the list is cleared, like ObservableCollection<T> in .NET. The query methods return new lists, which are
+ * not observable, and never raise a change; that includes removeAll, which leaves the list unchanged.
+ */
+export default class ObservableList<T> extends List<T> {
+  private readonly listeners: Array<
+    (event: IListChangedEvent<T>) => void
+  > = [];
+  private batchDepth = 0;
+  private pending: Array<IListChangedEvent<T>> = [];
+
+  /**
+   * Adds an object to the end of the ObservableList<T>.
+   * @override
+   */
+  public add(element: T): void {
+    super.add(element);
+    this.notify(changed('added', [element], this.count() - 1));
+  }
+
+  /**
+   * Adds the elements of the specified collection to the end of the ObservableList<T>, raising a single change.
+   * @override
+   */
+  public addRange(elements: T[]): void {
+    const index = this.count();
+    super.addRange(elements);
+    if (elements.length) {
+      this.notify(changed('added', elements.slice(), index));
+    }
+  }
+
+  /**
+   * Runs the update and raises the changes it makes as a single notification once it is done: the change itself
+   * when there is only one, or else a reset. Batches may be nested, in which case the changes of the inner ones
+   * are raised with those of the outermost.
+   */
+  public batch(update: () => void): void {
+    this.batchDepth += 1;
+    try {
+      update();
+    } finally {
+      this.batchDepth -= 1;
+      if (!this.batchDepth && this.pending.length) {
+        const changes = this.pending;
+        this.pending = [];
+        this.notify(changes.length === 1 ? changes[0] : changed<T>('reset'));
+      }
+    }
+  }
+
+  /**
+   * Removes all elements from the ObservableList<T>, raising a reset.
+   */
+  public clear(): void {
+    if (this._elements.length) {
+      this.splice(0, this._elements.length, []);
+      this.notify(changed<T>('reset'));
+    }
+  }
+
+  /**
+   * Inserts an element into the ObservableList<T> at the specified index.
+   * @override
+   */
+  public insert(index: number, element: T): void {
+    super.insert(index, element);
+    this.notify(changed('added', [element], index));
+  }
+
+  /**
+   * Starts a live query over the ObservableList<T>, whose results are kept up to date as the list changes.
+   */
+  public live(): LiveQuery<T> {
+    return LiveQuery.from(this);
+  }
+
+  /**
+   * Moves the element at the old index to the new one, shifting the elements in between.
+   */
+  public move(oldIndex: number, newIndex: number): void {
+    this.checkIndex(oldIndex, 'oldIndex');
+    this.checkIndex(newIndex, 'newIndex');
+    if (oldIndex !== newIndex) {
+      const element = this._elements[oldIndex];
+      this.splice(oldIndex, 1, []);
+      this.splice(newIndex, 0, [element]);
+      this.notify(changed('moved', [element], newIndex, [element], oldIndex));
+    }
+  }
+
+  /**
+   * Removes the element at the specified index of the ObservableList<T>.
+   * @override
+   */
+  public removeAt(index: number): void {
+    const element = this._elements[index];
+    super.removeAt(index);
+    this.notify(changed('removed', [], -1, [element], index));
+  }
+
+  /**
+   * Replaces the element at the specified index of the ObservableList<T>.
+   */
+  public set(index: number, element: T): void {
+    this.checkIndex(index, 'index');
+    const old = this._elements[index];
+    this.splice(index, 1, [element]);
+    this.notify(changed('replaced', [element], index, [old], index));
+  }
+
+  /**
+   * Calls the listener with every change to the ObservableList<T> from now on,
+   * and returns a function that unsubscribes it.
+   */
+  public subscribe(
+    listener: (event: IListChangedEvent<T>) => void
+  ): () => void {
+    this.listeners.push(listener);
+
+    return () => {
+      this.unsubscribe(listener);
+    };
+  }
+
+  /**
+   * Stops calling the listener with changes, returning false when it was not subscribed.
+   */
+  public unsubscribe(
+    listener: (event: IListChangedEvent<T>) => void
+  ): boolean {
+    const index = this.listeners.indexOf(listener);
+    if (index === -1) {
+      return false;
+    }
+    this.listeners.splice(index, 1);
+
+    return true;
+  }
+
+  private checkIndex(index: number, paramName: string): void {
+    if (!(index >= 0 && index < this._elements.length)) {
+      throw new ArgumentOutOfRangeError(
+        paramName,
+        index,
+        'Index is out of range.',
+        this.count()
+      );
+    }
+  }
+
+  // holds the change back while a batch update is running
+  private notify(event: IListChangedEvent<T>): void {
+    if (this.batchDepth) {
+      this.pending.push(event);
+    } else {
+      this.listeners.slice().forEach(listener => listener(event));
+    }
+  }
+}
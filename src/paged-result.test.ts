@@ -0,0 +1,30 @@
+import test from 'ava';
+
+import Enumerable from './enumerable';
+import { InvalidOperationError } from './errors';
+
+test('Page navigation', t => {
+  const list = Enumerable.RANGE(1, 7);
+  const first = list.paginate(0, 3);
+  t.false(first.hasPrevious);
+  t.deepEqual(first.nextPage().items.toArray(), [4, 5, 6]);
+  t.deepEqual(first.goToPage(2).items.toArray(), [7]);
+  const last = first.lastPage();
+  t.is(last.pageIndex, 2);
+  t.false(last.hasNext);
+  t.deepEqual(last.previousPage().items.toArray(), [4, 5, 6]);
+  t.deepEqual(last.firstPage().items.toArray(), [1, 2, 3]);
+  t.throws(() => last.nextPage(), InvalidOperationError);
+  t.throws(() => first.previousPage(), InvalidOperationError);
+});
+
+test('Navigation reflects changes to the source', t => {
+  const list = Enumerable.RANGE(1, 3);
+  const page = list.paginate(0, 3);
+  t.false(page.hasNext);
+  list.add(4);
+  t.deepEqual(page.goToPage(1).items.toArray(), [4]);
+  t.is(page.firstPage().totalCount, 4);
+  t.is(list.paginate(0, 3).lastPage().pageIndex, 1);
+  t.is(Enumerable.EMPTY<number>().paginate(0, 3).lastPage().pageIndex, 0);
+});
@@ -0,0 +1,90 @@
+import { InvalidOperationError } from './errors';
+import List from './list';
+
+/**
+ * A page of a keyset paginated list: the elements after a cursor, whether more follow them,
+ * and the cursor to pass to get the next page.
+ */
+export interface ICursorPage<T, TKey> {
+  hasNext: boolean;
+  items: List<T>;
+  nextCursor: TKey;
+}
+
+/**
+ * Represents one page of a paginated list, with the total number of elements and pages.
+ * The navigation methods paginate the source list again, so they reflect any changes made to it since.
+ */
+export default class PagedResult<T> {
+  constructor(
+    public readonly items: List<T>,
+    public readonly pageIndex: number,
+    public readonly pageSize: number,
+    public readonly totalCount: number,
+    private readonly fetch: (pageIndex: number) => PagedResult<T>
+  ) {}
+
+  /**
+   * Gets the number of pages, which is 0 when the source list is empty.
+   */
+  public get pageCount(): number {
+    return Math.ceil(this.totalCount / this.pageSize);
+  }
+
+  /**
+   * Gets a value indicating whether there is a page after this one.
+   */
+  public get hasNext(): boolean {
+    return this.pageIndex < this.pageCount - 1;
+  }
+
+  /**
+   * Gets a value indicating whether there is a page before this one.
+   */
+  public get hasPrevious(): boolean {
+    return this.pageIndex > 0;
+  }
+
+  /**
+   * Returns the first page.
+   */
+  public firstPage(): PagedResult<T> {
+    return this.fetch(0);
+  }
+
+  /**
+   * Returns the page at the given zero-based index, which is empty when it is past the last page.
+   */
+  public goToPage(pageIndex: number): PagedResult<T> {
+    return this.fetch(pageIndex);
+  }
+
+  /**
+   * Returns the last page, or the first one when the source list is empty.
+   */
+  public lastPage(): PagedResult<T> {
+    return this.fetch(Math.max(0, this.pageCount - 1));
+  }
+
+  /**
+   * Returns the page after this one. Throws if this is the last page.
+   */
+  public nextPage(): PagedResult<T> {
+    if (!this.hasNext) {
+      throw new InvalidOperationError('There is no next page.');
+    }
+
+    return this.fetch(this.pageIndex + 1);
+  }
+
+  /**
+   * Returns the page before this one. Throws if this is the first page.
+   */
+  public previousPage(): PagedResult<T> {
+    if (!this.hasPrevious) {
+      throw new InvalidOperationError('There is no previous page.');
+    }
+
+    return this.fetch(this.pageIndex - 1);
+  }
+}
@@ -0,0 +1,45 @@
+import test from 'ava';
+
+import EqualityComparer from './equality-comparer';
+import { ArgumentError, KeyNotFoundError } from './errors';
+import List from './list';
+
+const table = () =>
+  new List([
+    { day: new Date(2018, 0, 1), product: 'tea', sold: 3 },
+    { day: new Date(2018, 0, 2), product: 'coffee', sold: 4 },
+    { day: new Date(2018, 0, 1), product: 'coffee', sold: 2 }
+  ]).pivot(
+    x => x.day,
+    x => x.product,
+    g => g.sum(x => x.sold),
+    null,
+    EqualityComparer.DATE
+  );
+
+test('Get', t => {
+  t.is(table().get(new Date(2018, 0, 1), 'coffee'), 2);
+  t.is(table().get(new Date(2018, 0, 2), 'tea'), null);
+  t.throws(() => table().get(new Date(2018, 0, 3), 'tea'), KeyNotFoundError);
+  t.throws(() => table().get(new Date(2018, 0, 1), 'milk'), KeyNotFoundError);
+});
+
+test('ToList', t => {
+  const rows = table().toList();
+  t.deepEqual(rows.select(x => x.key.getDate()).toArray(), [1, 2]);
+  t.deepEqual(rows.select(x => [x.tea, x.coffee]).toArray(), [
+    [3, 2],
+    [null, 4]
+  ]);
+});
+
+test('ToList with unusual column keys', t => {
+  const pivot = (products: string[]) =>
+    new List(products).pivot(x => 'day', x => x, g => g.count());
+  const rows = pivot(['__proto__', 'tea']).toList();
+  t.deepEqual(Object.keys(rows.first()), ['key', '__proto__', 'tea']);
+  t.is(rows.first()['__proto__'], 1);
+  t.is(Object.getPrototypeOf(rows.first()), Object.prototype);
+  t.throws(() => pivot(['key', 'tea']).toList(), ArgumentError);
+  t.is(pivot(['key', 'tea']).toList('day').first().key, 1);
+});
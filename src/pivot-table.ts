@@ -0,0 +1,83 @@
+import { ArgumentError, KeyNotFoundError } from './errors';
+import List from './list';
+import { Dictionary } from './sequence';
+
+/**
+ * Named aggregate functions, each of which computes one value of a pivot table cell from the elements in it.
+ */
+export interface IPivotAggregates<T> {
+  [name: string]: (elements: List<T>) => any;
+}
+
+/**
+ * The values of a pivot table cell computed by named aggregate functions, one property for each.
+ */
+export type PivotAggregateValues<
+  T,
+  TAggregates extends IPivotAggregates<T>
+> = { [K in keyof TAggregates]: ReturnType<TAggregates[K]> };
+
+/**
+ * Represents a pivot table built by List.pivot: the distinct row and column keys, in the order they first appear,
+ * and the matrix of aggregated values, with one array of values for each row key and one value in it for each column key.
+ */
+export default class PivotTable<TRow, TColumn, TValue> {
+  constructor(
+    public readonly rowKeys: List<TRow>,
+    public readonly columnKeys: List<TColumn>,
+    public readonly values: TValue[][],
+    private readonly rowIndexes: Dictionary<TRow, number>,
+    private readonly columnIndexes: Dictionary<TColumn, number>
+  ) {}
+
+  /**
+   * Gets the value of the cell at the given row and column keys. Throws if either key is not in the table.
+   */
+  public get(row: TRow, column: TColumn): TValue {
+    const [rowFound, rowIndex] = this.rowIndexes.tryGetValue(row);
+    if (!rowFound) {
+      throw new KeyNotFoundError(row);
+    }
+    const [columnFound, columnIndex] = this.columnIndexes.tryGetValue(column);
+    if (!columnFound) {
+      throw new KeyNotFoundError(column);
+    }
+
+    return this.values[rowIndex][columnIndex];
+  }
+
+  /**
+   * Converts the table into a List of row objects, each with its row key in the given property, 'key' unless
+   * specified, and one property for each column, named by the column key converted to a string.
+   * Throws if a column key converts to the name of the row key property.
+   */
+  public toList(rowKeyProperty: string = 'key'): List<{ [key: string]: any }> {
+    if (this.columnKeys.any(column => String(column) === rowKeyProperty)) {
+      throw new ArgumentError(
+        `A column key converts to '${rowKeyProperty}', the name of the row key property.`,
+        'rowKeyProperty'
+      );
+    }
+
+    // the properties are defined rather than assigned, so that keys such as __proto__ become properties too
+    return this.rowKeys.select((row, i) =>
+      this.columnKeys.aggregate<{ [key: string]: any }>(
+        (result, column, j) =>
+          defineValue(result, String(column), this.values[i][j]),
+        defineValue({}, rowKeyProperty, row)
+      )
+    );
+  }
+}
+
+const defineValue = (
+  target: { [key: string]: any },
+  name: string,
+  value: any
+): { [key: string]: any } =>
+  Object.defineProperty(target, name, {
+    configurable: true,
+    enumerable: true,
+    value,
+    writable: true
+  });
@@ -0,0 +1,610 @@
+import test from 'ava';
+
+import Enumerable from './enumerable';
+import EqualityComparer from './equality-comparer';
+import {
+  ArgumentNullError,
+  ArgumentOutOfRangeError,
+  InvalidOperationError
+} from './errors';
+import List from './list';
+import Sequence, { Lookup } from './sequence';
+
+interface IPerson {
+  name: string;
+  age: number;
+}
+
+const people: IPerson[] = [
+  { age: 50, name: 'Bob' },
+  { age: 15, name: 'Cathy' },
+  { age: 25, name: 'Alice' },
+  { age: 15, name: 'Dave' }
+];
+
+test('Deferred execution', t => {
+  let calls = 0;
+  const query = new List<number>([1, 2, 3, 4, 5])
+    .asSequence()
+    .where(x => {
+      calls += 1;
+
+      return x > 1;
+    })
+    .select(x => x * 10);
+
+  t.is(calls, 0);
+  t.is(query.first(), 20);
+  t.is(calls, 2);
+});
+
+test('Deferred execution sees later changes to the source', t => {
+  const list = new List<number>([1, 2]);
+  const query = list.asSequence().select(x => x * 2);
+  list.add(3);
+  t.deepEqual(query.toArray(), [2, 4, 6]);
+  t.deepEqual(query.toArray(), [2, 4, 6]);
+});
+
+test('Generator function source', t => {
+  const naturals = new Sequence<number>(function*(): IterableIterator<number> {
+    for (let n = 1; ; n += 1) {
+      yield n;
+    }
+  });
+
+  t.deepEqual(
+    naturals
+      .where(x => x % 2 === 0)
+      .take(3)
+      .toArray(),
+    [2, 4, 6]
+  );
+  t.is(naturals.first(x => x > 100), 101);
+  t.is(naturals.elementAt(9), 10);
+});
+
+test('for...of', t => {
+  const result: string[] = [];
+  for (const name of new Sequence(people).select(p => p.name)) {
+    result.push(name);
+  }
+  t.deepEqual(result, ['Bob', 'Cathy', 'Alice', 'Dave']);
+});
+
+test('Aggregate', t => {
+  const words = new Sequence<string>(['the', 'quick', 'fox']);
+  t.is(words.aggregate((ac, next) => `${next} ${ac}`, ''), 'fox quick the ');
+});
+
+test('All / Any', t => {
+  const numbers = new Sequence<number>([1, 2, 3]);
+  t.true(numbers.all(x => x > 0));
+  t.false(numbers.all(x => x > 1));
+  t.true(numbers.any(x => x > 2));
+  t.true(numbers.any());
+  t.false(new Sequence<number>().any());
+});
+
+test('Average / Sum / Min / Max', t => {
+  const ages = new Sequence(people);
+  t.is(ages.sum(p => p.age), 105);
+  t.is(ages.average(p => p.age), 26.25);
+  t.is(ages.min(p => p.age), 15);
+  t.is(ages.max(p => p.age), 50);
+  t.is(new Sequence<number>([2, 3, 5]).sum(), 10);
+  t.is(ages.min(p => p.name), 'Alice');
+  t.is(ages.max(p => p.name, (a, b) => a.length - b.length), 'Cathy');
+  t.is(ages.minBy(p => p.age).name, 'Cathy');
+  t.is(ages.maxBy(p => p.name).name, 'Dave');
+  t.throws(() => new Sequence<number>().max(), InvalidOperationError);
+  t.throws(() => new Sequence<number>().minBy(x => x), InvalidOperationError);
+});
+
+test('Chunk / Window / Pairwise / BatchBy', t => {
+  function* naturals(): IterableIterator<number> {
+    for (let n = 1; ; n += 1) {
+      yield n;
+    }
+  }
+  const numbers = new Sequence(naturals);
+  t.deepEqual(
+    numbers
+      .chunk(2)
+      .take(2)
+      .select(x => x.toArray())
+      .toArray(),
+    [[1, 2], [3, 4]]
+  );
+  t.deepEqual(
+    numbers
+      .window(3)
+      .select(x => x.sum())
+      .take(3)
+      .toArray(),
+    [6, 9, 12]
+  );
+  t.deepEqual(
+    numbers
+      .pairwise((a, b) => a * b)
+      .take(3)
+      .toArray(),
+    [2, 6, 12]
+  );
+  t.deepEqual(
+    numbers
+      .batchBy(10, x => x)
+      .take(3)
+      .select(x => x.toArray())
+      .toArray(),
+    [[1, 2, 3, 4], [5], [6]]
+  );
+  t.throws(() => numbers.window(0), ArgumentOutOfRangeError);
+});
+
+test('Concat', t => {
+  t.deepEqual(
+    new Sequence<number>([1, 2]).concat([3, 4]).toArray(),
+    [1, 2, 3, 4]
+  );
+});
+
+test('Count', t => {
+  const fruits = new Sequence<string>(['apple', 'banana', 'mango', 'orange']);
+  t.is(fruits.count(), 4);
+  t.is(fruits.count(x => x.length > 5), 2);
+});
+
+test('DefaultIfEmpty', t => {
+  t.deepEqual(new Sequence<number>().defaultIfEmpty(0).toArray(), [0]);
+  t.deepEqual(new Sequence<number>([1]).defaultIfEmpty(0).toArray(), [1]);
+});
+
+test('Distinct / DistinctBy', t => {
+  t.deepEqual(
+    new Sequence<number>([21, 46, 46, 55, 17, 21]).distinct().toArray(),
+    [21, 46, 55, 17]
+  );
+  t.deepEqual(
+    new Sequence([{ a: 1 }, { a: 1 }, { a: 2 }]).distinct().toArray(),
+    [{ a: 1 }, { a: 2 }]
+  );
+  t.deepEqual(
+    new Sequence(people)
+      .distinctBy(p => p.age)
+      .select(p => p.name)
+      .toArray(),
+    ['Bob', 'Cathy', 'Alice']
+  );
+});
+
+test('ElementAt / ElementAtOrDefault', t => {
+  const letters = new Sequence<string>(['a', 'b', 'c']);
+  t.is(letters.elementAt(1), 'b');
+  t.throws(
+    () => letters.elementAt(3),
+    ArgumentOutOfRangeError
+  );
+  t.is(letters.elementAtOrDefault(3), undefined);
+});
+
+test('Except / Intersect / Union', t => {
+  const a = new Sequence<number>([1, 2, 3, 4]);
+  t.deepEqual(a.except([2, 4]).toArray(), [1, 3]);
+  t.deepEqual(a.intersect([4, 2, 9]).toArray(), [2, 4]);
+  t.deepEqual(a.union([5, 3, 6]).toArray(), [1, 2, 3, 4, 5, 6]);
+  t.deepEqual(new Sequence([1, 2, 2, 1]).except([1]).toArray(), [2, 2]);
+});
+
+test('ExceptBy / IntersectBy / UnionBy', t => {
+  const names = new Sequence(people).select(p => p.name);
+  t.deepEqual(names.exceptBy([3, 5], n => n.length).toArray(), ['Dave']);
+  t.deepEqual(names.intersectBy([3, 5], n => n.length).toArray(), [
+    'Bob',
+    'Cathy',
+    'Alice'
+  ]);
+  t.deepEqual(
+    names.unionBy(['Carl', 'Eve', 'Ann'], n => n[0]).toArray(),
+    ['Bob', 'Cathy', 'Alice', 'Dave', 'Eve']
+  );
+});
+
+test('Equality comparers', t => {
+  const words = new Sequence<string>(['a', 'B', 'b', 'c']);
+  const ignoreCase = EqualityComparer.IGNORE_CASE;
+  t.true(words.contains('C', ignoreCase));
+  t.deepEqual(words.distinct(ignoreCase).toArray(), ['a', 'B', 'c']);
+  t.deepEqual(words.except(['A', 'C'], ignoreCase).toArray(), ['B', 'b']);
+  t.deepEqual(words.intersect(['A'], ignoreCase).toArray(), ['a']);
+  t.deepEqual(words.union(['D', 'A'], ignoreCase).toArray(), ['a', 'B', 'c', 'D']);
+  t.true(words.sequenceEqual(['A', 'b', 'B', 'C'], ignoreCase));
+  t.deepEqual(words.groupBy(x => x, x => x, ignoreCase).get('b').toArray(), [
+    'B',
+    'b'
+  ]);
+  t.deepEqual(
+    new Sequence([{ at: new Date(2018, 0, 1) }])
+      .join(
+        [{ at: new Date(2018, 0, 1), what: 'new year' }],
+        x => x.at,
+        y => y.at,
+        (x, y) => y.what,
+        EqualityComparer.DATE
+      )
+      .toArray(),
+    ['new year']
+  );
+});
+
+test('First / Last / Single', t => {
+  const numbers = new Sequence<number>([1, 2, 3, 4, 5]);
+  t.is(numbers.first(), 1);
+  t.is(numbers.first(x => x > 2), 3);
+  t.is(numbers.last(), 5);
+  t.is(numbers.last(x => x < 3), 2);
+  t.is(numbers.single(x => x === 4), 4);
+  t.throws(
+    () => new Sequence<number>().first(),
+    InvalidOperationError
+  );
+  t.throws(
+    () => numbers.last(x => x > 5),
+    InvalidOperationError
+  );
+  t.throws(
+    () => numbers.single(),
+    InvalidOperationError
+  );
+  t.is(numbers.firstOrDefault(x => x > 5), undefined);
+  t.is(numbers.lastOrDefault(x => x > 5), undefined);
+  t.is(numbers.singleOrDefault(x => x > 5), undefined);
+});
+
+test('GroupBy', t => {
+  const groups = new Sequence(people).groupBy(p => p.age, p => p.name);
+  t.deepEqual(groups.keys.toArray(), [50, 15, 25]);
+  t.deepEqual(groups.get(15).toArray(), ['Cathy', 'Dave']);
+  t.deepEqual(
+    new Sequence(people)
+      .groupBy(p => p.age, p => p.name, (age, names) => names.count())
+      .toArray(),
+    [1, 2, 1]
+  );
+});
+
+test('GroupBy with a result selector is deferred', t => {
+  let reads = 0;
+  const ages = new Sequence(people).select(p => {
+    reads += 1;
+
+    return p.age;
+  });
+  const counts = ages.groupBy(x => x, x => x, (age, group) => group.count());
+  t.is(reads, 0);
+  t.deepEqual(counts.toArray(), [1, 2, 1]);
+  t.is(reads, 4);
+  Enumerable.REPEAT(1).groupBy(x => x, x => x, (key, group) => key);
+});
+
+interface IPet {
+  name: string;
+  owner: { id: number };
+}
+
+const pets = new List<IPet>([
+  { name: 'Barley', owner: { id: 2 } },
+  { name: 'Boots', owner: { id: 1 } },
+  { name: 'Whiskers', owner: { id: 2 } }
+]);
+
+test('Lookup.create', t => {
+  const lookup = Lookup.create(pets, p => p.owner.id, p => p.name);
+  t.is(lookup.count(), 2);
+  t.deepEqual(lookup.keys.toArray(), [2, 1]);
+  t.deepEqual(lookup.get(2).toArray(), ['Barley', 'Whiskers']);
+  t.is(lookup.count(g => g.count() > 1), 1);
+  t.deepEqual(Lookup.create(['a', 'b', 'a'], x => x).get('a').toArray(), [
+    'a',
+    'a'
+  ]);
+});
+
+test('Lookup keys keep their type', t => {
+  const byOwner = pets.groupBy(p => p.owner);
+  t.is(byOwner.count(), 3);
+  t.is(byOwner.first().key, pets.first().owner);
+
+  const structural = pets.groupBy(
+    p => p.owner,
+    p => p.name,
+    EqualityComparer.STRUCTURAL
+  );
+  t.is(structural.count(), 2);
+  t.deepEqual(structural.get({ id: 2 }).toArray(), ['Barley', 'Whiskers']);
+  t.deepEqual(structural.first().key, { id: 2 });
+});
+
+test('Lookup groupings are queryable', t => {
+  const lookup = pets.toLookup(p => p.owner.id, p => p.name);
+  const group = lookup.get(2);
+  t.is(group.key, 2);
+  t.is(group.count(), 2);
+  t.deepEqual(
+    group
+      .where(name => name.length > 6)
+      .select(name => name.toUpperCase())
+      .toArray(),
+    ['WHISKERS']
+  );
+  t.deepEqual(
+    lookup
+      .selectMany(g => g)
+      .orderBy(name => name)
+      .toArray(),
+    ['Barley', 'Boots', 'Whiskers']
+  );
+});
+
+test('Lookup ContainsKey / Get of missing key', t => {
+  const lookup = pets.toLookup(p => p.owner.id);
+  t.true(lookup.containsKey(1));
+  t.false(lookup.containsKey(3));
+  t.is(lookup.get(3).key, 3);
+  t.is(lookup.get(3).count(), 0);
+});
+
+test('Join / GroupJoin', t => {
+  const owners = new Sequence([{ id: 1, name: 'Terry' }, { id: 2, name: 'Ann' }]);
+  const pets = [
+    { name: 'Barley', owner: 1 },
+    { name: 'Boots', owner: 1 },
+    { name: 'Daisy', owner: 2 }
+  ];
+  t.deepEqual(
+    owners
+      .join(pets, o => o.id, p => p.owner, (o, p) => `${o.name} - ${p.name}`)
+      .toArray(),
+    ['Terry - Barley', 'Terry - Boots', 'Ann - Daisy']
+  );
+  t.deepEqual(
+    owners
+      .groupJoin(
+        pets,
+        o => o.id,
+        p => p.owner,
+        (o, ps) => `${o.name}: ${ps.select(p => p.name).toArray()}`
+      )
+      .toArray(),
+    ['Terry: Barley,Boots', 'Ann: Daisy']
+  );
+});
+
+test('Outer / cross joins', t => {
+  const departments = new Sequence([
+    { id: 1, name: 'Sales' },
+    { id: 2, name: 'Legal' }
+  ]);
+  function* employees(): IterableIterator<{ name: string; department: number }> {
+    yield { name: 'Ann', department: 1 };
+    yield { name: 'Bob', department: 3 };
+    yield { name: 'Eve', department: 1 };
+  }
+  const describe = (
+    d: { id: number; name: string },
+    e: { name: string; department: number }
+  ): string => `${d ? d.name : '-'}: ${e ? e.name : '-'}`;
+  t.deepEqual(
+    departments
+      .leftJoin(employees(), d => d.id, e => e.department, describe)
+      .toArray(),
+    ['Sales: Ann', 'Sales: Eve', 'Legal: -']
+  );
+  t.deepEqual(
+    departments
+      .rightJoin([...employees()], d => d.id, e => e.department, describe)
+      .toArray(),
+    ['Sales: Ann', '-: Bob', 'Sales: Eve']
+  );
+  const full = departments.fullOuterJoin(
+    [...employees()],
+    d => d.id,
+    e => e.department,
+    describe
+  );
+  t.deepEqual(full.toArray(), [
+    'Sales: Ann',
+    'Sales: Eve',
+    'Legal: -',
+    '-: Bob'
+  ]);
+  t.deepEqual(full.toArray(), full.toArray());
+  t.deepEqual(
+    new Sequence([1, 2])
+      .crossJoin('ab', (n, c) => `${c}${n}`)
+      .toArray(),
+    ['a1', 'b1', 'a2', 'b2']
+  );
+  t.deepEqual(
+    new Sequence([{ a: 1, b: 'x' }])
+      .join(
+        [{ a: 1, b: 'x' }, { a: 1, b: 'y' }],
+        x => [x.a, x.b],
+        y => [y.a, y.b],
+        (x, y) => y.b
+      )
+      .toArray(),
+    ['x']
+  );
+});
+
+test('OfType', t => {
+  const things = new Sequence<any>(['dogs', 'cats', 13, true]);
+  t.is(things.ofType(String).count(), 2);
+  t.is(things.ofType(Number).count(), 1);
+  t.is(things.ofType(Date).count(), 0);
+});
+
+test('OrderBy / ThenBy', t => {
+  const source = [4, 5, 6, 3, 2, 1];
+  t.deepEqual(
+    new Sequence(source).orderBy(x => x).toArray(),
+    [1, 2, 3, 4, 5, 6]
+  );
+  t.deepEqual(source, [4, 5, 6, 3, 2, 1]);
+  t.deepEqual(
+    new Sequence(people)
+      .orderBy(p => p.age)
+      .thenByDescending(p => p.name)
+      .select(p => p.name)
+      .toArray(),
+    ['Dave', 'Cathy', 'Alice', 'Bob']
+  );
+  t.deepEqual(
+    new Sequence(people)
+      .orderByDescending(p => p.age)
+      .thenBy(p => p.name, (a, b) => a.name.localeCompare(b.name))
+      .select(p => p.name)
+      .toArray(),
+    ['Bob', 'Alice', 'Cathy', 'Dave']
+  );
+  const ordered = new Sequence(people).orderBy(p => p.age);
+  t.throws(() => new Sequence(people).orderBy(null), ArgumentNullError);
+  t.throws(() => ordered.thenBy(null), ArgumentNullError);
+  t.throws(() => ordered.thenByDescending(null), ArgumentNullError);
+});
+
+test('Reverse', t => {
+  const source = [1, 2, 3];
+  t.deepEqual(new Sequence(source).reverse().toArray(), [3, 2, 1]);
+  t.deepEqual(source, [1, 2, 3]);
+});
+
+test('Scan / RunningSum / RunningAverage', t => {
+  let pulled = 0;
+  const numbers = new Sequence<number>([3, 1, 4, 1, 5]).select(x => {
+    pulled += 1;
+
+    return x;
+  });
+  t.deepEqual(
+    numbers
+      .scan((max, x) => Math.max(max, x), -Infinity)
+      .take(3)
+      .toArray(),
+    [3, 3, 4]
+  );
+  t.is(pulled, 3);
+  t.deepEqual(numbers.runningSum().toArray(), [3, 4, 8, 9, 14]);
+  t.deepEqual(
+    new Sequence(people).runningAverage(p => p.age).toArray(),
+    [50, 32.5, 30, 26.25]
+  );
+});
+
+test('SelectMany', t => {
+  t.deepEqual(
+    new Sequence([[1, 2], [], [3]]).selectMany(x => x).toArray(),
+    [1, 2, 3]
+  );
+});
+
+test('SequenceEqual', t => {
+  const numbers = new Sequence<number>([1, 2, 3]);
+  t.true(numbers.sequenceEqual([1, 2, 3]));
+  t.false(numbers.sequenceEqual([1, 2]));
+  t.false(numbers.sequenceEqual([1, 2, 3, 4]));
+});
+
+test('Skip / Take', t => {
+  const grades = new Sequence<number>([59, 82, 70, 56, 92, 98, 85]);
+  t.deepEqual(grades.skip(5).toArray(), [98, 85]);
+  t.deepEqual(grades.take(2).toArray(), [59, 82]);
+  t.deepEqual(grades.take(0).toArray(), []);
+  t.deepEqual(grades.skipWhile(x => x < 80).toArray(), [82, 70, 56, 92, 98, 85]);
+  t.deepEqual(grades.takeWhile(x => x < 80).toArray(), [59]);
+});
+
+test('ToList / ToDictionary', t => {
+  t.deepEqual(new Sequence<number>([1, 2]).toList(), new List<number>([1, 2]));
+  t.is(new Sequence(people).toDictionary(p => p.name).count(), 4);
+});
+
+test('Flatten / TraverseDepthFirst / TraverseBreadthFirst', t => {
+  interface IFolder {
+    name: string;
+    folders?: IFolder[];
+  }
+  const tree: IFolder[] = [
+    {
+      folders: [{ folders: [{ name: 'c' }], name: 'b' }, { name: 'd' }],
+      name: 'a'
+    },
+    { name: 'e' }
+  ];
+  let visited = 0;
+  const children = (folder: IFolder) => {
+    visited += 1;
+
+    return folder.folders;
+  };
+  const depthFirst = new Sequence<IFolder>(tree).traverseDepthFirst(children);
+  t.is(visited, 0);
+  t.deepEqual(
+    depthFirst.select(x => `${x.value.name}${x.depth}`).toArray(),
+    ['a0', 'b1', 'c2', 'd1', 'e0']
+  );
+  t.deepEqual(
+    depthFirst
+      .where(x => x.value.name === 'c')
+      .select(x => x.path.map(f => f.name).join('/'))
+      .single(),
+    'a/b/c'
+  );
+  t.is(depthFirst.first(x => x.depth === 1).parent.name, 'a');
+  t.deepEqual(
+    new Sequence<IFolder>(tree)
+      .traverseBreadthFirst(children)
+      .select(x => x.value.name)
+      .toArray(),
+    ['a', 'e', 'b', 'd', 'c']
+  );
+  t.deepEqual(
+    new Sequence<IFolder>(tree)
+      .flatten(children)
+      .select(x => x.name)
+      .toArray(),
+    ['a', 'b', 'c', 'd', 'e']
+  );
+  // deep chains are walked without copying a path for every node
+  const chain = (n: number) => (n < 40000 ? [n + 1] : null);
+  t.is(new Sequence([0]).flatten(chain).count(), 40001);
+  t.is(new Sequence([0]).traverseDepthFirst(chain).last().path.length, 40001);
+});
+
+test('Zip', t => {
+  t.deepEqual(
+    new Sequence<number>([1, 2, 3, 4])
+      .zip(['one', 'two', 'three'], (n, w) => `${n} ${w}`)
+      .toArray(),
+    ['1 one', '2 two', '3 three']
+  );
+});
+
+test('Zip closes the second sequence', t => {
+  let closed = 0;
+  function* words(): IterableIterator<string> {
+    try {
+      yield 'one';
+      yield 'two';
+    } finally {
+      closed += 1;
+    }
+  }
+  t.deepEqual(new Sequence([1]).zip(words(), (n, w) => w).toArray(), ['one']);
+  t.is(closed, 1);
+  t.is(new Sequence([1, 2, 3]).zip(words(), (n, w) => w).first(), 'one');
+  t.is(closed, 2);
+  t.is(new Sequence([1, 2, 3]).zip(words(), (n, w) => w).count(), 2);
+  t.is(closed, 3);
+});
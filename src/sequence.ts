@@ -0,0 +1,1685 @@
+import {
+  composeComparers,
+  extremum,
+  keyComparer,
+  stableSort,
+  typeNameOf
+} from './helpers';
+import EqualityComparer, { IEqualityComparer } from './equality-comparer';
+import {
+  ArgumentError,
+  ArgumentNullError,
+  ArgumentOutOfRangeError,
+  InvalidOperationError,
+  KeyNotFoundError
+} from './errors';
+import HashSet from './hash-set';
+import List, { adopt } from './list';
+import { ITraversalNode } from './tree-node';
+
+/**
+ * Represents a lazily evaluated sequence. The methods of this class are implemented by using deferred execution:
+ * operators only compose the query, which is not executed until the sequence is enumerated, either
+ * with for...of or by calling one of its materializing methods such as toArray, toList, first or count.
+ */
+class Sequence<T> implements Iterable<T> {
+  // tslint:disable-next-line: variable-name
+  protected _source: () => Iterator<T>;
+
+  /**
+   * Wraps an iterable, or a function returning a fresh iterator on every enumeration
+   */
+  constructor(source: Iterable<T> | (() => Iterator<T>) = []) {
+    const iterable = <Iterable<T>>source;
+    this._source =
+      typeof source === 'function' ? source : () => iterable[Symbol.iterator]();
+  }
+
+  /**
+   * Returns an iterator that runs the query.
+   */
+  public [Symbol.iterator](): Iterator<T> {
+    return this._source();
+  }
+
+  /**
+   * Applies an accumulator function over a sequence.
+   */
+  public aggregate<U>(
+    accumulator: (accum: U, value: T, index: number) => U,
+    initialValue?: U
+  ): U {
+    let accum = initialValue;
+    let index = 0;
+    for (const value of this) {
+      accum = accumulator(accum, value, index);
+      index += 1;
+    }
+
+    return accum;
+  }
+
+  /**
+   * Determines whether all elements of a sequence satisfy a condition.
+   */
+  public all(predicate: (value: T, index: number) => boolean): boolean {
+    return !this.any(negateIndexed(predicate));
+  }
+
+  /**
+   * Determines whether a sequence contains any elements.
+   */
+  // tslint:disable-next-line: no-reserved-keywords
+  public any(predicate?: (value: T, index: number) => boolean): boolean {
+    let index = 0;
+    for (const value of this) {
+      if (!predicate || predicate(value, index)) {
+        return true;
+      }
+      index += 1;
+    }
+
+    return false;
+  }
+
+  /**
+   * Computes the average of a sequence of number values that are obtained by invoking
+   * a transform function on each element of the input sequence.
+   */
+  public average(transform?: (value: T, index: number) => number): number {
+    const total = this.aggregate(
+      (ac, v, i) => ({
+        count: ac.count + 1,
+        sum: ac.sum + (transform ? transform(v, i) : +v)
+      }),
+      { count: 0, sum: 0 }
+    );
+
+    return total.sum / total.count;
+  }
+
+  /**
+   * Splits a sequence into batches of consecutive elements, in order. Each element is added to the current batch
+   * while the predicate, given that batch and the element, returns true, and starts a new batch otherwise.
+   * When a maximum weight is given instead, each batch holds as many elements as fit in it by the weight selector;
+   * an element heavier than the maximum gets a batch of its own.
+   */
+  public batchBy(
+    predicate: (batch: List<T>, element: T) => boolean
+  ): Sequence<List<T>>;
+  public batchBy(
+    maxWeight: number,
+    weightSelector: (element: T) => number
+  ): Sequence<List<T>>;
+  public batchBy(
+    predicate: ((batch: List<T>, element: T) => boolean) | number,
+    weightSelector?: (element: T) => number
+  ): Sequence<List<T>> {
+    if (typeof predicate === 'function') {
+      return new Sequence<List<T>>(() => batchByIterator(this, predicate));
+    }
+    if (!(predicate > 0)) {
+      throw new ArgumentOutOfRangeError(
+        'maxWeight',
+        predicate,
+        'The maximum weight must be positive.'
+      );
+    }
+
+    return new Sequence<List<T>>(() =>
+      batchByWeightIterator(this, predicate, weightSelector)
+    );
+  }
+
+  /**
+   * Casts the elements of a sequence to the specified type.
+   */
+  public cast<U>(): Sequence<U> {
+    return new Sequence<U>(<any>this._source);
+  }
+
+  /**
+   * Splits the elements of a sequence into chunks of the given size; the last chunk may be smaller.
+   */
+  public chunk(size: number): Sequence<List<T>> {
+    return this.window(size, size, true);
+  }
+
+  /**
+   * Concatenates two sequences.
+   */
+  public concat(second: Iterable<T>): Sequence<T> {
+    return new Sequence<T>(() => concatIterator(this, second));
+  }
+
+  /**
+   * Determines whether a sequence contains a specified element by using the default equality comparer,
+   * or a specified equality comparer.
+   */
+  public contains(
+    element: T,
+    comparer: IEqualityComparer<T> = EqualityComparer.DEFAULT
+  ): boolean {
+    return this.any(x => comparer.equals(x, element));
+  }
+
+  /**
+   * Returns the number of elements in a sequence.
+   */
+  public count(predicate?: (value: T, index: number) => boolean): number {
+    return this.aggregate(
+      (ac, v, i) => (!predicate || predicate(v, i) ? ac + 1 : ac),
+      0
+    );
+  }
+
+  /**
+   * Returns the Cartesian product of two sequences: every element of this sequence paired with every element of the second.
+   * The second sequence is enumerated once per enumeration of the query.
+   */
+  public crossJoin<U, TResult>(
+    second: Iterable<U>,
+    result: (first: T, second: U) => TResult
+  ): Sequence<TResult> {
+    return new Sequence<TResult>(() => crossJoinIterator(this, second, result));
+  }
+
+  /**
+   * Returns the elements of the specified sequence or the type parameter's default value
+   * in a singleton collection if the sequence is empty.
+   */
+  public defaultIfEmpty(defaultValue?: T): Sequence<T> {
+    return new Sequence<T>(() => defaultIfEmptyIterator(this, defaultValue));
+  }
+
+  /**
+   * Returns distinct elements from a sequence, keeping the first occurrence of each in source order.
+   * Values are compared with a specified equality comparer, or else structurally, so objects with
+   * the same properties count as duplicates.
+   */
+  public distinct(
+    comparer: IEqualityComparer<T> = EqualityComparer.STRUCTURAL
+  ): Sequence<T> {
+    return this.distinctBy(x => x, comparer);
+  }
+
+  /**
+   * Returns distinct elements from a sequence according to specified key selector, keeping the first
+   * element for each key in source order. Keys are compared with a specified equality comparer, or else structurally.
+   */
+  public distinctBy<TKey>(
+    keySelector: (key: T) => TKey,
+    comparer: IEqualityComparer<TKey> = EqualityComparer.STRUCTURAL
+  ): Sequence<T> {
+    return new Sequence<T>(() =>
+      distinctIterator(this, keySelector, comparer)
+    );
+  }
+
+  /**
+   * Returns the element at a specified index in a sequence.
+   */
+  public elementAt(index: number): T {
+    if (index >= 0) {
+      for (const value of this.skip(index)) {
+        return value;
+      }
+    }
+    throw new ArgumentOutOfRangeError(
+      'index',
+      index,
+      'index is less than 0 or greater than or equal to the number of elements in source.'
+    );
+  }
+
+  /**
+   * Returns the element at a specified index in a sequence or a default value if the index is out of range.
+   */
+  public elementAtOrDefault(index: number): T {
+    return index >= 0 ? this.skip(index).firstOrDefault() : undefined;
+  }
+
+  /**
+   * Produces the set difference of two sequences. Values are compared with a specified equality comparer,
+   * or else structurally, like in every set operator, so objects with the same properties are equal.
+   * Yields the elements of this sequence that are not in the second one, in their original order and including duplicates.
+   */
+  public except(
+    second: Iterable<T>,
+    comparer?: IEqualityComparer<T>
+  ): Sequence<T> {
+    return this.exceptBy(second, x => x, comparer);
+  }
+
+  /**
+   * Produces the set difference of two sequences according to a specified key selector function.
+   * Keys are compared with a specified equality comparer, or else structurally.
+   * Yields the elements of this sequence whose keys are not in the given keys, in their original order.
+   */
+  public exceptBy<TKey>(
+    keys: Iterable<TKey>,
+    keySelector: (key: T) => TKey,
+    comparer: IEqualityComparer<TKey> = EqualityComparer.STRUCTURAL
+  ): Sequence<T> {
+    return new Sequence<T>(() =>
+      exceptIterator(this, keys, keySelector, false, comparer)
+    );
+  }
+
+  /**
+   * Returns the first element of a sequence.
+   */
+  public first(predicate?: (value: T, index: number) => boolean): T {
+    for (const value of predicate ? this.where(predicate) : this) {
+      return value;
+    }
+    throw new InvalidOperationError('The source sequence is empty.');
+  }
+
+  /**
+   * Returns the first element of a sequence, or a default value if the sequence contains no elements.
+   */
+  public firstOrDefault(predicate?: (value: T, index: number) => boolean): T {
+    for (const value of predicate ? this.where(predicate) : this) {
+      return value;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Flattens a hierarchy: yields each element followed by all of its descendants, depth-first,
+   * which are found by the children selector. Elements without children may return null or undefined.
+   */
+  public flatten(childrenSelector: (element: T) => Iterable<T>): Sequence<T> {
+    return new Sequence<T>(() => flattenIterator(this, childrenSelector));
+  }
+
+  /**
+   * Performs the specified action on each element of the sequence.
+   */
+  public forEach(action: (value: T, index: number) => any): void {
+    this.aggregate((ac, v, i) => action(v, i), undefined);
+  }
+
+  /**
+   * Correlates the elements of two sequences based on matching keys, keeping the elements of both that have no match.
+   * Yields the left join of this sequence with the inner one, followed by the inner elements whose key matches
+   * no element of this sequence, each paired with a default value (null unless specified) for the missing side.
+   * Keys are compared with a specified equality comparer, or else structurally.
+   */
+  public fullOuterJoin<U, TKey, TResult>(
+    inner: Iterable<U>,
+    key1: (key: T) => TKey,
+    key2: (key: U) => TKey,
+    result: (first: T, second: U) => TResult,
+    defaultFirst: T = null,
+    defaultSecond: U = null,
+    comparer: IEqualityComparer<TKey> = EqualityComparer.STRUCTURAL
+  ): Sequence<TResult> {
+    return new Sequence<TResult>(() =>
+      fullOuterJoinIterator(
+        this,
+        inner,
+        key1,
+        key2,
+        result,
+        defaultFirst,
+        defaultSecond,
+        comparer
+      )
+    );
+  }
+
+  /**
+   * Groups the elements of a sequence according to a specified key selector function, optionally projecting
+   * the elements of each group and comparing keys by using a specified equality comparer.
+   * When a result selector is given, creates a result value from each group and its key, deferring the grouping
+   * until the results are enumerated; otherwise returns the Lookup<TKey, TElement> at once, like toLookup.
+   */
+  public groupBy<TKey, TElement = T>(
+    keySelector: (key: T) => TKey,
+    elementSelector?: (element: T) => TElement,
+    comparer?: IEqualityComparer<TKey>
+  ): Lookup<TKey, TElement>;
+  public groupBy<TKey, TElement, TResult>(
+    keySelector: (key: T) => TKey,
+    elementSelector: (element: T) => TElement,
+    resultSelector: (key: TKey, elements: Grouping<TKey, TElement>) => TResult,
+    comparer?: IEqualityComparer<TKey>
+  ): Sequence<TResult>;
+  public groupBy<TKey, TElement, TResult>(
+    keySelector: (key: T) => TKey,
+    elementSelector?: (element: T) => TElement,
+    resultSelector?: any,
+    comparer?: IEqualityComparer<TKey>
+  ): Lookup<TKey, TElement> | Sequence<TResult> {
+    if (typeof resultSelector !== 'function') {
+      return Lookup.create(this, keySelector, elementSelector, resultSelector);
+    }
+
+    return new Sequence<TResult>(() =>
+      Lookup.create(this, keySelector, elementSelector, comparer)
+        .select(group => <TResult>resultSelector(group.key, group))
+        [Symbol.iterator]()
+    );
+  }
+
+  /**
+   * Correlates the elements of two sequences based on equality of keys and groups the results.
+   * Keys are compared with a specified equality comparer, or else structurally, so key selectors
+   * may return tuples or objects as composite keys.
+   * The inner sequence is enumerated and indexed by key once per enumeration of the query.
+   */
+  public groupJoin<U, TKey, TResult>(
+    inner: Iterable<U>,
+    key1: (k: T) => TKey,
+    key2: (k: U) => TKey,
+    result: (first: T, second: List<U>) => TResult,
+    comparer: IEqualityComparer<TKey> = EqualityComparer.STRUCTURAL
+  ): Sequence<TResult> {
+    return new Sequence<TResult>(() =>
+      groupJoinIterator(this, inner, key1, key2, result, comparer)
+    );
+  }
+
+  /**
+   * Produces the set intersection of two sequences. Values are compared with a specified equality comparer,
+   * or else structurally, like in every set operator, so objects with the same properties are equal.
+   * Yields the elements of this sequence that are also in the second one, in their original order and including duplicates.
+   */
+  public intersect(
+    second: Iterable<T>,
+    comparer?: IEqualityComparer<T>
+  ): Sequence<T> {
+    return this.intersectBy(second, x => x, comparer);
+  }
+
+  /**
+   * Produces the set intersection of two sequences according to a specified key selector function.
+   * Keys are compared with a specified equality comparer, or else structurally.
+   * Yields the elements of this sequence whose keys are in the given keys, in their original order.
+   */
+  public intersectBy<TKey>(
+    keys: Iterable<TKey>,
+    keySelector: (key: T) => TKey,
+    comparer: IEqualityComparer<TKey> = EqualityComparer.STRUCTURAL
+  ): Sequence<T> {
+    return new Sequence<T>(() =>
+      exceptIterator(this, keys, keySelector, true, comparer)
+    );
+  }
+
+  /**
+   * Correlates the elements of two sequences based on matching keys.
+   * Keys are compared with a specified equality comparer, or else structurally, so key selectors
+   * may return tuples or objects as composite keys.
+   * The inner sequence is enumerated and indexed by key once per enumeration of the query;
+   * results follow the order of this sequence, then the order of the matches.
+   */
+  public join<U, TKey, TResult>(
+    inner: Iterable<U>,
+    key1: (key: T) => TKey,
+    key2: (key: U) => TKey,
+    result: (first: T, second: U) => TResult,
+    comparer: IEqualityComparer<TKey> = EqualityComparer.STRUCTURAL
+  ): Sequence<TResult> {
+    return this.groupJoin(
+      inner,
+      key1,
+      key2,
+      (x, matches) => matches.select(y => result(x, y)),
+      comparer
+    ).selectMany(x => x);
+  }
+
+  /**
+   * Returns the last element of a sequence.
+   */
+  public last(predicate?: (value: T, index: number) => boolean): T {
+    const source = predicate ? this.where(predicate) : this;
+    let found = false;
+    let last: T;
+    for (const value of source) {
+      found = true;
+      last = value;
+    }
+    if (!found) {
+      throw new InvalidOperationError('The source sequence is empty.');
+    }
+
+    return last;
+  }
+
+  /**
+   * Returns the last element of a sequence, or a default value if the sequence contains no elements.
+   */
+  public lastOrDefault(predicate?: (value: T, index: number) => boolean): T {
+    return (predicate ? this.where(predicate) : this).aggregate(
+      (ac, v) => v,
+      undefined
+    );
+  }
+
+  /**
+   * Correlates the elements of two sequences based on matching keys, keeping the elements of this sequence that have no match.
+   * Each element of this sequence is paired with every matching inner element, in order,
+   * or else with a default value, which is null unless specified.
+   * Keys are compared with a specified equality comparer, or else structurally.
+   * The inner sequence is enumerated once per enumeration of the query.
+   */
+  public leftJoin<U, TKey, TResult>(
+    inner: Iterable<U>,
+    key1: (key: T) => TKey,
+    key2: (key: U) => TKey,
+    result: (first: T, second: U) => TResult,
+    defaultValue: U = null,
+    comparer: IEqualityComparer<TKey> = EqualityComparer.STRUCTURAL
+  ): Sequence<TResult> {
+    return new Sequence<TResult>(() =>
+      leftJoinIterator(
+        this,
+        inner,
+        key1,
+        key2,
+        result,
+        defaultValue,
+        comparer
+      )
+    );
+  }
+
+  /**
+   * Returns the maximum value in a generic sequence, such as a number, string or Date.
+   * Values are compared with the given comparer, or else with < and >. Throws if the sequence is empty.
+   */
+  public max(): T;
+  public max<TResult>(
+    selector: (value: T, index: number) => TResult,
+    comparer?: (a: TResult, b: TResult) => number
+  ): TResult;
+  public max<TResult>(
+    selector?: (value: T, index: number) => TResult,
+    comparer?: (a: TResult, b: TResult) => number
+  ): TResult {
+    const values = selector ? this.select(selector) : <any>this;
+
+    return extremum<TResult, TResult>(values, x => x, 1, comparer);
+  }
+
+  /**
+   * Returns the first element with the largest key.
+   * Keys are compared with the given comparer, or else with < and >. Throws if the sequence is empty.
+   */
+  public maxBy<TKey>(
+    keySelector: (value: T, index: number) => TKey,
+    comparer?: (a: TKey, b: TKey) => number
+  ): T {
+    return extremum(this, keySelector, 1, comparer);
+  }
+
+  /**
+   * Returns the minimum value in a generic sequence, such as a number, string or Date.
+   * Values are compared with the given comparer, or else with < and >. Throws if the sequence is empty.
+   */
+  public min(): T;
+  public min<TResult>(
+    selector: (value: T, index: number) => TResult,
+    comparer?: (a: TResult, b: TResult) => number
+  ): TResult;
+  public min<TResult>(
+    selector?: (value: T, index: number) => TResult,
+    comparer?: (a: TResult, b: TResult) => number
+  ): TResult {
+    const values = selector ? this.select(selector) : <any>this;
+
+    return extremum<TResult, TResult>(values, x => x, -1, comparer);
+  }
+
+  /**
+   * Returns the first element with the smallest key.
+   * Keys are compared with the given comparer, or else with < and >. Throws if the sequence is empty.
+   */
+  public minBy<TKey>(
+    keySelector: (value: T, index: number) => TKey,
+    comparer?: (a: TKey, b: TKey) => number
+  ): T {
+    return extremum(this, keySelector, -1, comparer);
+  }
+
+  /**
+   * Filters the elements of a sequence based on a specified type.
+   */
+  public ofType<U>($type: any): Sequence<U> {
+    const typeName = typeNameOf($type);
+
+    return typeName === undefined
+      ? this.where(x => x instanceof $type).cast<U>()
+      : this.where(x => typeof x === typeName).cast<U>();
+  }
+
+  /**
+   * Sorts the elements of a sequence in ascending order according to a key.
+   */
+  public orderBy(
+    keySelector: (key: T) => any,
+    comparer = keyComparer(keySelector, false)
+  ): Sequence<T> {
+    ArgumentNullError.throwIfNull(keySelector, 'keySelector');
+
+    return new OrderedSequence<T>(this, comparer);
+  }
+
+  /**
+   * Sorts the elements of a sequence in descending order according to a key.
+   */
+  public orderByDescending(
+    keySelector: (key: T) => any,
+    comparer = keyComparer(keySelector, true)
+  ): Sequence<T> {
+    ArgumentNullError.throwIfNull(keySelector, 'keySelector');
+
+    return new OrderedSequence<T>(this, comparer);
+  }
+
+  /**
+   * Performs a subsequent ordering of the elements in a sequence in ascending order according to a key.
+   */
+  public thenBy(
+    keySelector: (key: T) => any,
+    comparer = keyComparer(keySelector, false)
+  ): Sequence<T> {
+    return this.orderBy(keySelector, comparer);
+  }
+
+  /**
+   * Performs a subsequent ordering of the elements in a sequence in descending order, according to a key.
+   */
+  public thenByDescending(
+    keySelector: (key: T) => any,
+    comparer = keyComparer(keySelector, true)
+  ): Sequence<T> {
+    return this.orderByDescending(keySelector, comparer);
+  }
+
+  /**
+   * Returns each element of a sequence paired with the one before it, as a tuple or projected by the result selector.
+   * A sequence with fewer than two elements has no pairs.
+   */
+  public pairwise(): Sequence<[T, T]>;
+  public pairwise<TResult>(
+    result: (previous: T, current: T) => TResult
+  ): Sequence<TResult>;
+  public pairwise<TResult>(
+    result: (previous: T, current: T) => TResult = (a, b) => <any>[a, b]
+  ): Sequence<TResult> {
+    return new Sequence<TResult>(() => pairwiseIterator(this, result));
+  }
+
+  /**
+   * Inverts the order of the elements in a sequence.
+   */
+  public reverse(): Sequence<T> {
+    return new Sequence<T>(() =>
+      this.toArray()
+        .reverse()
+        [Symbol.iterator]()
+    );
+  }
+
+  /**
+   * Correlates the elements of two sequences based on matching keys, keeping the inner elements that have no match.
+   * Each inner element is paired with every matching element of this sequence, in order,
+   * or else with a default value, which is null unless specified.
+   * Keys are compared with a specified equality comparer, or else structurally.
+   */
+  public rightJoin<U, TKey, TResult>(
+    inner: Iterable<U>,
+    key1: (key: T) => TKey,
+    key2: (key: U) => TKey,
+    result: (first: T, second: U) => TResult,
+    defaultValue: T = null,
+    comparer: IEqualityComparer<TKey> = EqualityComparer.STRUCTURAL
+  ): Sequence<TResult> {
+    return new Sequence<U>(inner).leftJoin(
+      this,
+      key2,
+      key1,
+      (y, x) => result(x, y),
+      defaultValue,
+      comparer
+    );
+  }
+
+  /**
+   * Computes the running average of a sequence of numbers: for each element, the average of the values so far.
+   */
+  public runningAverage(
+    transform?: (value: T, index: number) => number
+  ): Sequence<number> {
+    return this.runningSum(transform).select(
+      (total, index) => total / (index + 1)
+    );
+  }
+
+  /**
+   * Computes the running sum of a sequence of numbers: for each element, the sum of the values so far.
+   */
+  public runningSum(
+    transform?: (value: T, index: number) => number
+  ): Sequence<number> {
+    return this.scan((ac, v, i) => ac + (transform ? transform(v, i) : +v), 0);
+  }
+
+  /**
+   * Applies an accumulator function over a sequence, starting from the seed, and yields every intermediate
+   * accumulated value: one for each element, the last of which is the result of aggregate.
+   */
+  public scan<U>(
+    accumulator: (accum: U, value: T, index: number) => U,
+    seed: U
+  ): Sequence<U> {
+    return new Sequence<U>(() => scanIterator(this, accumulator, seed));
+  }
+
+  /**
+   * Projects each element of a sequence into a new form.
+   */
+  public select<TOut>(
+    selector: (element: T, index: number) => TOut
+  ): Sequence<TOut> {
+    return new Sequence<TOut>(() => selectIterator(this, selector));
+  }
+
+  /**
+   * Projects each element of a sequence to an iterable and flattens the resulting sequences into one sequence.
+   */
+  public selectMany<TOut>(
+    selector: (element: T, index: number) => Iterable<TOut>
+  ): Sequence<TOut> {
+    return new Sequence<TOut>(() => selectManyIterator(this, selector));
+  }
+
+  /**
+   * Determines whether two sequences are equal by comparing the elements by using the default equality comparer for their type.
+   */
+  public sequenceEqual(
+    second: Iterable<T>,
+    comparer: IEqualityComparer<T> = EqualityComparer.DEFAULT
+  ): boolean {
+    const first = this[Symbol.iterator]();
+    const other = second[Symbol.iterator]();
+    let a = first.next();
+    let b = other.next();
+    while (!a.done && !b.done) {
+      if (!comparer.equals(a.value, b.value)) {
+        return false;
+      }
+      a = first.next();
+      b = other.next();
+    }
+
+    return !!a.done && !!b.done;
+  }
+
+  /**
+   * Returns the only element of a sequence, and throws an exception if there is not exactly one element in the sequence.
+   */
+  public single(predicate?: (value: T, index: number) => boolean): T {
+    const matches = (predicate ? this.where(predicate) : this)
+      .take(2)
+      .toArray();
+    if (matches.length !== 1) {
+      throw new InvalidOperationError(
+        'The collection does not contain exactly one element.'
+      );
+    }
+
+    return matches[0];
+  }
+
+  /**
+   * Returns the only element of a sequence, or a default value if the sequence is empty;
+   * this method throws an exception if there is more than one element in the sequence.
+   */
+  public singleOrDefault(predicate?: (value: T, index: number) => boolean): T {
+    return (predicate ? this.where(predicate) : this).any()
+      ? this.single(predicate)
+      : undefined;
+  }
+
+  /**
+   * Bypasses a specified number of elements in a sequence and then returns the remaining elements.
+   */
+  public skip(amount: number): Sequence<T> {
+    return this.skipWhile((x, i) => i < amount);
+  }
+
+  /**
+   * Bypasses elements in a sequence as long as a specified condition is true and then returns the remaining elements.
+   */
+  public skipWhile(
+    predicate: (value: T, index: number) => boolean
+  ): Sequence<T> {
+    return new Sequence<T>(() => skipWhileIterator(this, predicate));
+  }
+
+  /**
+   * Computes the sum of the sequence of number values that are obtained by invoking
+   * a transform function on each element of the input sequence.
+   */
+  public sum(transform?: (value: T, index: number) => number): number {
+    return this.aggregate(
+      (ac, v, i) => ac + (transform ? transform(v, i) : +v),
+      0
+    );
+  }
+
+  /**
+   * Returns a specified number of contiguous elements from the start of a sequence.
+   */
+  public take(amount: number): Sequence<T> {
+    return new Sequence<T>(() => takeIterator(this, amount));
+  }
+
+  /**
+   * Returns elements from a sequence as long as a specified condition is true.
+   */
+  public takeWhile(
+    predicate: (value: T, index: number) => boolean
+  ): Sequence<T> {
+    return new Sequence<T>(() => takeWhileIterator(this, predicate));
+  }
+
+  /**
+   * Runs the query and copies its elements to a new array.
+   */
+  public toArray(): T[] {
+    return Array.from(this);
+  }
+
+  /**
+   * Creates a Dictionary<TKey, TValue> from a sequence according to a specified key selector function,
+   * an optional element selector function and an optional equality comparer for the keys.
+   */
+  public toDictionary<TKey>(
+    key: (key: T) => TKey,
+    comparer?: IEqualityComparer<TKey>
+  ): Dictionary<TKey, T>;
+  public toDictionary<TKey, TValue>(
+    key: (key: T) => TKey,
+    value: (value: T) => TValue,
+    comparer?: IEqualityComparer<TKey>
+  ): Dictionary<TKey, TValue>;
+  public toDictionary<TKey, TValue>(
+    key: (key: T) => TKey,
+    value?: any,
+    comparer?: IEqualityComparer<TKey>
+  ): Dictionary<TKey, T | TValue> {
+    return this.toList().toDictionary(key, value, comparer);
+  }
+
+  /**
+   * Runs the query and copies its elements to a new List<T>.
+   */
+  public toList(): List<T> {
+    return adopt<T>(this.toArray());
+  }
+
+  /**
+   * Creates a Lookup<TKey, TElement> from a sequence according to specified key selector and element selector functions,
+   * optionally comparing keys by using a specified equality comparer.
+   */
+  public toLookup<TKey, TElement = T>(
+    keySelector: (key: T) => TKey,
+    elementSelector?: (element: T) => TElement,
+    comparer?: IEqualityComparer<TKey>
+  ): Lookup<TKey, TElement> {
+    return this.groupBy(keySelector, elementSelector, comparer);
+  }
+
+  /**
+   * Traverses a hierarchy breadth-first, level by level: yields the elements of this sequence, then all of
+   * their children, which are found by the children selector, then all of their grandchildren, and so on.
+   * Every element comes with its depth, its parent and its path from the root.
+   */
+  public traverseBreadthFirst(
+    childrenSelector: (element: T) => Iterable<T>
+  ): Sequence<ITraversalNode<T>> {
+    return new Sequence<ITraversalNode<T>>(() =>
+      traverseBreadthFirstIterator(this, childrenSelector)
+    );
+  }
+
+  /**
+   * Traverses a hierarchy depth-first: yields each element of this sequence followed by all of its descendants,
+   * which are found by the children selector, each before its own children.
+   * Every element comes with its depth, its parent and its path from the root.
+   */
+  public traverseDepthFirst(
+    childrenSelector: (element: T) => Iterable<T>
+  ): Sequence<ITraversalNode<T>> {
+    return new Sequence<ITraversalNode<T>>(() =>
+      traverseDepthFirstIterator(this, childrenSelector)
+    );
+  }
+
+  /**
+   * Produces the set union of two sequences, comparing values like distinct does.
+   * Yields the distinct elements of this sequence followed by those of the second one that were not seen yet.
+   */
+  public union(
+    second: Iterable<T>,
+    comparer?: IEqualityComparer<T>
+  ): Sequence<T> {
+    return this.concat(second).distinct(comparer);
+  }
+
+  /**
+   * Produces the set union of two sequences according to a specified key selector function,
+   * keeping the first element for each key: those of this sequence first, then those of the second one.
+   * Keys are compared with a specified equality comparer, or else structurally.
+   */
+  public unionBy<TKey>(
+    second: Iterable<T>,
+    keySelector: (key: T) => TKey,
+    comparer: IEqualityComparer<TKey> = EqualityComparer.STRUCTURAL
+  ): Sequence<T> {
+    return this.concat(second).distinctBy(keySelector, comparer);
+  }
+
+  /**
+   * Filters a sequence of values based on a predicate.
+   */
+  public where(predicate: (value: T, index: number) => boolean): Sequence<T> {
+    return new Sequence<T>(() => whereIterator(this, predicate));
+  }
+
+  /**
+   * Returns sliding windows of the given size over a sequence, starting a new window every step elements.
+   * Windows at the end that are shorter than the size are left out, unless partial windows are asked for.
+   */
+  public window(
+    size: number,
+    step: number = 1,
+    partial: boolean = false
+  ): Sequence<List<T>> {
+    checkPositiveInteger(size, 'size');
+    checkPositiveInteger(step, 'step');
+
+    return new Sequence<List<T>>(() =>
+      windowIterator(this, size, step, partial)
+    );
+  }
+
+  /**
+   * Applies a specified function to the corresponding elements of two sequences, producing a sequence of the results.
+   */
+  public zip<U, TOut>(
+    second: Iterable<U>,
+    result: (first: T, second: U) => TOut
+  ): Sequence<TOut> {
+    return new Sequence<TOut>(() => zipIterator(this, second, result));
+  }
+}
+
+/**
+ * Represents a sorted sequence. Sorting is deferred until the sequence is enumerated,
+ * so a chain of thenBy calls composes its comparers and sorts the source only once.
+ */
+class OrderedSequence<T> extends Sequence<T> {
+  constructor(
+    private readonly unsorted: Iterable<T>,
+    private readonly comparer: (a: T, b: T) => number
+  ) {
+    super(() => stableSort(Array.from(unsorted), comparer)[Symbol.iterator]());
+  }
+
+  /**
+   * Performs a subsequent ordering of the elements in a sequence in ascending order according to a key.
+   */
+  public thenBy(
+    keySelector: (key: T) => any,
+    comparer = keyComparer(keySelector, false)
+  ): Sequence<T> {
+    ArgumentNullError.throwIfNull(keySelector, 'keySelector');
+
+    return new OrderedSequence<T>(
+      this.unsorted,
+      composeComparers(this.comparer, comparer)
+    );
+  }
+
+  /**
+   * Performs a subsequent ordering of the elements in a sequence in descending order, according to a key.
+   */
+  public thenByDescending(
+    keySelector: (key: T) => any,
+    comparer = keyComparer(keySelector, true)
+  ): Sequence<T> {
+    ArgumentNullError.throwIfNull(keySelector, 'keySelector');
+
+    return new OrderedSequence<T>(
+      this.unsorted,
+      composeComparers(this.comparer, comparer)
+    );
+  }
+}
+
+/**
+ * Represents a collection of elements that have a common key.
+ */
+export class Grouping<TKey, TElement> extends Sequence<TElement> {
+  constructor(public readonly key: TKey, private readonly elements: TElement[]) {
+    super(elements);
+  }
+
+  /**
+   * Returns the number of elements in the group.
+   */
+  public count(predicate?: (value: TElement, index: number) => boolean): number {
+    return predicate ? super.count(predicate) : this.elements.length;
+  }
+}
+
+interface ILookupGroup<TKey, TElement> {
+  elements: TElement[];
+  grouping: Grouping<TKey, TElement>;
+}
+
+/**
+ * Represents a collection of keys each mapped to one or more values. Keys keep their original type
+ * and are compared with the default equality comparer, or with the one given when the lookup is created.
+ * Enumerating a lookup yields its groups in the order their keys were first seen.
+ */
+export class Lookup<TKey, TElement> extends Sequence<Grouping<TKey, TElement>> {
+  /**
+   * Creates a Lookup<TKey, TElement> from a sequence according to specified key selector and element selector functions.
+   */
+  public static create<T, TKey, TElement = T>(
+    source: Iterable<T>,
+    keySelector: (key: T) => TKey,
+    elementSelector: (element: T) => TElement = x => <TElement>(<any>x),
+    comparer?: IEqualityComparer<TKey>
+  ): Lookup<TKey, TElement> {
+    const lookup = new Lookup<TKey, TElement>(comparer);
+    for (const value of source) {
+      lookup.push(keySelector(value), elementSelector(value));
+    }
+
+    return lookup;
+  }
+
+  // groups by hash code of their key, and in the order their keys were first seen
+  private readonly buckets = new Map<
+    any,
+    Array<ILookupGroup<TKey, TElement>>
+  >();
+  private readonly comparer: IEqualityComparer<TKey>;
+  private readonly groups: Array<ILookupGroup<TKey, TElement>> = [];
+
+  private constructor(comparer?: IEqualityComparer<TKey>) {
+    super();
+    this.comparer = comparer || EqualityComparer.DEFAULT;
+    this._source = () => this.groups.map(x => x.grouping)[Symbol.iterator]();
+  }
+
+  /**
+   * Gets the keys of the groups in the Lookup<TKey, TElement>.
+   */
+  public get keys(): List<TKey> {
+    return new List<TKey>(this.groups.map(x => x.grouping.key));
+  }
+
+  /**
+   * Determines whether a specified key is in the Lookup<TKey, TElement>.
+   */
+  public containsKey(key: TKey): boolean {
+    return !!this.find(key);
+  }
+
+  /**
+   * Returns the number of groups in the Lookup<TKey, TElement>.
+   */
+  public count(
+    predicate?: (value: Grouping<TKey, TElement>, index: number) => boolean
+  ): number {
+    return predicate ? super.count(predicate) : this.groups.length;
+  }
+
+  /**
+   * Gets the group of elements indexed by the specified key, which is empty when the key is not found.
+   */
+  public get(key: TKey): Grouping<TKey, TElement> {
+    const group = this.find(key);
+
+    return group ? group.grouping : new Grouping<TKey, TElement>(key, []);
+  }
+
+  private find(key: TKey): ILookupGroup<TKey, TElement> {
+    const bucket = this.buckets.get(this.comparer.getHashCode(key));
+
+    return (
+      bucket && bucket.find(x => this.comparer.equals(x.grouping.key, key))
+    );
+  }
+
+  private push(key: TKey, element: TElement): void {
+    const group = this.find(key);
+    if (group) {
+      group.elements.push(element);
+    } else {
+      const elements = [element];
+      const added = {
+        elements,
+        grouping: new Grouping<TKey, TElement>(key, elements)
+      };
+      const hash = this.comparer.getHashCode(key);
+      if (this.buckets.has(hash)) {
+        this.buckets.get(hash).push(added);
+      } else {
+        this.buckets.set(hash, [added]);
+      }
+      this.groups.push(added);
+    }
+  }
+}
+
+/**
+ * Defines a key/value pair that can be set or retrieved.
+ */
+export interface IKeyValuePair<TKey, TValue> {
+  Key: TKey;
+  Value: TValue;
+}
+
+/**
+ * Represents a collection of keys and values, backed by a Map. Keys may be of any type and are compared
+ * with the default equality comparer, or with the one given to the constructor.
+ * The query operators inherited from Sequence<T> run over the key/value pairs, in insertion order.
+ */
+export class Dictionary<TKey, TValue> extends Sequence<IKeyValuePair<TKey, TValue>> {
+  private readonly buckets = new Map<any, Array<IKeyValuePair<TKey, TValue>>>();
+  private readonly entries = new Set<IKeyValuePair<TKey, TValue>>();
+
+  constructor(
+    private readonly comparer: IEqualityComparer<TKey> = EqualityComparer.DEFAULT
+  ) {
+    super();
+    this._source = () => this.entries.values();
+  }
+
+  /**
+   * Gets the keys in the Dictionary<TKey, TValue>.
+   */
+  public get keys(): List<TKey> {
+    return this.select(x => x.Key).toList();
+  }
+
+  /**
+   * Gets the values in the Dictionary<TKey, TValue>.
+   */
+  public get values(): List<TValue> {
+    return this.select(x => x.Value).toList();
+  }
+
+  /**
+   * Adds the specified key and value to the dictionary.
+   * Throws if an element with the same key already exists.
+   */
+  public add(key: TKey, value: TValue): void {
+    if (this.find(key)) {
+      throw new ArgumentError(
+        `An item with the same key has already been added. Key: ${String(key)}`,
+        'key'
+      );
+    }
+    this.set(key, value);
+  }
+
+  /**
+   * Removes all keys and values from the Dictionary<TKey, TValue>.
+   */
+  public clear(): void {
+    this.buckets.clear();
+    this.entries.clear();
+  }
+
+  /**
+   * Determines whether the Dictionary<TKey, TValue> contains the specified key.
+   */
+  public containsKey(key: TKey): boolean {
+    return !!this.find(key);
+  }
+
+  /**
+   * Determines whether the Dictionary<TKey, TValue> contains a specific value.
+   */
+  public containsValue(value: TValue): boolean {
+    return this.any(x => x.Value === value);
+  }
+
+  /**
+   * Returns the number of elements in the Dictionary<TKey, TValue>.
+   */
+  public count(
+    predicate?: (value: IKeyValuePair<TKey, TValue>, index: number) => boolean
+  ): number {
+    return predicate ? super.count(predicate) : this.entries.size;
+  }
+
+  /**
+   * Gets the value associated with the specified key. Throws if the key is not found.
+   */
+  public get(key: TKey): TValue {
+    const entry = this.find(key);
+    if (!entry) {
+      throw new KeyNotFoundError(key);
+    }
+
+    return entry.Value;
+  }
+
+  /**
+   * Removes the value with the specified key from the Dictionary<TKey, TValue>.
+   */
+  public remove(key: TKey): boolean {
+    const hash = this.comparer.getHashCode(key);
+    const bucket = this.buckets.get(hash) || [];
+    const index = bucket.findIndex(x => this.comparer.equals(x.Key, key));
+    if (index === -1) {
+      return false;
+    }
+    this.entries.delete(bucket[index]);
+    if (bucket.length === 1) {
+      this.buckets.delete(hash);
+    } else {
+      bucket.splice(index, 1);
+    }
+
+    return true;
+  }
+
+  /**
+   * Sets the value associated with the specified key, adding the key if it does not exist yet.
+   */
+  public set(key: TKey, value: TValue): void {
+    const entry = this.find(key);
+    if (entry) {
+      entry.Value = value;
+    } else {
+      const hash = this.comparer.getHashCode(key);
+      const added = { Key: key, Value: value };
+      if (this.buckets.has(hash)) {
+        this.buckets.get(hash).push(added);
+      } else {
+        this.buckets.set(hash, [added]);
+      }
+      this.entries.add(added);
+    }
+  }
+
+  /**
+   * Gets the value associated with the specified key, returning whether the key was found
+   * together with the value, which is undefined when it was not.
+   */
+  public tryGetValue(key: TKey): [boolean, TValue] {
+    const entry = this.find(key);
+
+    return entry ? [true, entry.Value] : [false, undefined];
+  }
+
+  private find(key: TKey): IKeyValuePair<TKey, TValue> {
+    const bucket = this.buckets.get(this.comparer.getHashCode(key));
+
+    return bucket && bucket.find(x => this.comparer.equals(x.Key, key));
+  }
+}
+
+const checkPositiveInteger = (value: number, paramName: string): void => {
+  if (!(value >= 1) || value % 1 !== 0) {
+    throw new ArgumentOutOfRangeError(
+      paramName,
+      value,
+      'The value must be a positive integer.'
+    );
+  }
+};
+
+const negateIndexed = <T>(
+  predicate: (value: T, index: number) => boolean
+): ((value: T, index: number) => boolean) => (value, index) =>
+  !predicate(value, index);
+
+// the parent node of each traversal node, from which its path is built when it is read
+const traversalParents = new WeakMap<
+  ITraversalNode<any>,
+  ITraversalNode<any>
+>();
+
+const traversalNode = <T>(
+  value: T,
+  parent: ITraversalNode<T>
+): ITraversalNode<T> => {
+  const node = <ITraversalNode<T>>{
+    depth: parent ? parent.depth + 1 : 0,
+    parent: parent ? parent.value : undefined,
+    value
+  };
+  Object.defineProperty(node, 'path', {
+    enumerable: true,
+    get: () => traversalPath(node)
+  });
+  if (parent) {
+    traversalParents.set(node, parent);
+  }
+
+  return node;
+};
+
+const traversalPath = <T>(node: ITraversalNode<T>): T[] => {
+  const path: T[] = [];
+  for (let current = node; current; current = traversalParents.get(current)) {
+    path.push(current.value);
+  }
+
+  return path.reverse();
+};
+
+function* batchByIterator<T>(
+  source: Iterable<T>,
+  predicate: (batch: List<T>, element: T) => boolean
+): IterableIterator<List<T>> {
+  let batch = new List<T>();
+  for (const value of source) {
+    if (batch.any() && !predicate(batch, value)) {
+      yield batch;
+      batch = new List<T>();
+    }
+    batch.add(value);
+  }
+  if (batch.any()) {
+    yield batch;
+  }
+}
+
+function* batchByWeightIterator<T>(
+  source: Iterable<T>,
+  maxWeight: number,
+  weightSelector: (element: T) => number
+): IterableIterator<List<T>> {
+  let batch = new List<T>();
+  let weight = 0;
+  for (const value of source) {
+    const added = weightSelector(value);
+    if (batch.any() && weight + added > maxWeight) {
+      yield batch;
+      batch = new List<T>();
+      weight = 0;
+    }
+    batch.add(value);
+    weight += added;
+  }
+  if (batch.any()) {
+    yield batch;
+  }
+}
+
+function* concatIterator<T>(
+  first: Iterable<T>,
+  second: Iterable<T>
+): IterableIterator<T> {
+  yield* first;
+  yield* second;
+}
+
+function* crossJoinIterator<T, U, TResult>(
+  source: Iterable<T>,
+  second: Iterable<U>,
+  result: (first: T, second: U) => TResult
+): IterableIterator<TResult> {
+  const elements = Array.from(second);
+  for (const value of source) {
+    for (const element of elements) {
+      yield result(value, element);
+    }
+  }
+}
+
+function* defaultIfEmptyIterator<T>(
+  source: Iterable<T>,
+  defaultValue: T
+): IterableIterator<T> {
+  let empty = true;
+  for (const value of source) {
+    empty = false;
+    yield value;
+  }
+  if (empty) {
+    yield defaultValue;
+  }
+}
+
+function* distinctIterator<T, TKey>(
+  source: Iterable<T>,
+  keySelector: (key: T) => TKey,
+  comparer: IEqualityComparer<TKey>
+): IterableIterator<T> {
+  const seen = new HashSet<TKey>(comparer);
+  for (const value of source) {
+    if (seen.add(keySelector(value))) {
+      yield value;
+    }
+  }
+}
+
+function* exceptIterator<T, TKey>(
+  source: Iterable<T>,
+  keys: Iterable<TKey>,
+  keySelector: (key: T) => TKey,
+  keep: boolean,
+  comparer: IEqualityComparer<TKey>
+): IterableIterator<T> {
+  const others = new HashSet<TKey>(comparer, keys);
+  for (const value of source) {
+    if (others.has(keySelector(value)) === keep) {
+      yield value;
+    }
+  }
+}
+
+function* fullOuterJoinIterator<T, U, TKey, TResult>(
+  source: Iterable<T>,
+  inner: Iterable<U>,
+  key1: (key: T) => TKey,
+  key2: (key: U) => TKey,
+  result: (first: T, second: U) => TResult,
+  defaultFirst: T,
+  defaultSecond: U,
+  comparer: IEqualityComparer<TKey>
+): IterableIterator<TResult> {
+  const elements = Array.from(inner);
+  const outerKeys = new HashSet<TKey>(comparer);
+  const recordKey = (value: T): TKey => {
+    const key = key1(value);
+    outerKeys.add(key);
+
+    return key;
+  };
+  yield* leftJoinIterator(
+    source,
+    elements,
+    recordKey,
+    key2,
+    result,
+    defaultSecond,
+    comparer
+  );
+  for (const element of elements) {
+    if (!outerKeys.has(key2(element))) {
+      yield result(defaultFirst, element);
+    }
+  }
+}
+
+function* groupJoinIterator<T, U, TKey, TResult>(
+  source: Iterable<T>,
+  inner: Iterable<U>,
+  key1: (k: T) => TKey,
+  key2: (k: U) => TKey,
+  result: (first: T, second: List<U>) => TResult,
+  comparer: IEqualityComparer<TKey>
+): IterableIterator<TResult> {
+  const lookup = Lookup.create<U, TKey>(inner, key2, undefined, comparer);
+  for (const value of source) {
+    yield result(value, lookup.get(key1(value)).toList());
+  }
+}
+
+function* leftJoinIterator<T, U, TKey, TResult>(
+  source: Iterable<T>,
+  inner: Iterable<U>,
+  key1: (key: T) => TKey,
+  key2: (key: U) => TKey,
+  result: (first: T, second: U) => TResult,
+  defaultValue: U,
+  comparer: IEqualityComparer<TKey>
+): IterableIterator<TResult> {
+  const lookup = Lookup.create<U, TKey>(inner, key2, undefined, comparer);
+  for (const value of source) {
+    const matches = lookup.get(key1(value));
+    if (!matches.any()) {
+      yield result(value, defaultValue);
+    }
+    yield* matches.select(match => result(value, match));
+  }
+}
+
+function* pairwiseIterator<T, TResult>(
+  source: Iterable<T>,
+  result: (previous: T, current: T) => TResult
+): IterableIterator<TResult> {
+  let first = true;
+  let previous: T;
+  for (const value of source) {
+    if (!first) {
+      yield result(previous, value);
+    }
+    first = false;
+    previous = value;
+  }
+}
+
+function* scanIterator<T, U>(
+  source: Iterable<T>,
+  accumulator: (accum: U, value: T, index: number) => U,
+  seed: U
+): IterableIterator<U> {
+  let accum = seed;
+  let index = 0;
+  for (const value of source) {
+    accum = accumulator(accum, value, index);
+    yield accum;
+    index += 1;
+  }
+}
+
+function* selectIterator<T, TOut>(
+  source: Iterable<T>,
+  selector: (element: T, index: number) => TOut
+): IterableIterator<TOut> {
+  let index = 0;
+  for (const value of source) {
+    yield selector(value, index);
+    index += 1;
+  }
+}
+
+function* selectManyIterator<T, TOut>(
+  source: Iterable<T>,
+  selector: (element: T, index: number) => Iterable<TOut>
+): IterableIterator<TOut> {
+  let index = 0;
+  for (const value of source) {
+    yield* selector(value, index);
+    index += 1;
+  }
+}
+
+function* skipWhileIterator<T>(
+  source: Iterable<T>,
+  predicate: (value: T, index: number) => boolean
+): IterableIterator<T> {
+  let index = 0;
+  let skipping = true;
+  for (const value of source) {
+    skipping = skipping && predicate(value, index);
+    if (!skipping) {
+      yield value;
+    }
+    index += 1;
+  }
+}
+
+function* takeIterator<T>(
+  source: Iterable<T>,
+  amount: number
+): IterableIterator<T> {
+  if (amount <= 0) {
+    return;
+  }
+  let taken = 0;
+  for (const value of source) {
+    yield value;
+    taken += 1;
+    if (taken >= amount) {
+      return;
+    }
+  }
+}
+
+function* takeWhileIterator<T>(
+  source: Iterable<T>,
+  predicate: (value: T, index: number) => boolean
+): IterableIterator<T> {
+  let index = 0;
+  for (const value of source) {
+    if (!predicate(value, index)) {
+      return;
+    }
+    yield value;
+    index += 1;
+  }
+}
+
+// keeps its own stack of child iterators, so deep hierarchies cannot overflow the call stack
+function* flattenIterator<T>(
+  source: Iterable<T>,
+  childrenSelector: (element: T) => Iterable<T>
+): IterableIterator<T> {
+  const stack: Array<Iterator<T>> = [source[Symbol.iterator]()];
+  while (stack.length) {
+    const next = stack[stack.length - 1].next();
+    if (next.done) {
+      stack.pop();
+    } else {
+      yield next.value;
+      const children = childrenSelector(next.value);
+      if (children) {
+        stack.push(children[Symbol.iterator]());
+      }
+    }
+  }
+}
+
+function* traverseBreadthFirstIterator<T>(
+  source: Iterable<T>,
+  childrenSelector: (element: T) => Iterable<T>
+): IterableIterator<ITraversalNode<T>> {
+  const queue: Array<ITraversalNode<T>> = [];
+  for (const value of source) {
+    const node = traversalNode(value, undefined);
+    yield node;
+    queue.push(node);
+  }
+  for (let i = 0; i < queue.length; i += 1) {
+    const parent = queue[i];
+    queue[i] = undefined;
+    for (const value of childrenSelector(parent.value) || []) {
+      const node = traversalNode(value, parent);
+      yield node;
+      queue.push(node);
+    }
+  }
+}
+
+// keeps its own stack of child iterators, so deep hierarchies cannot overflow the call stack
+function* traverseDepthFirstIterator<T>(
+  source: Iterable<T>,
+  childrenSelector: (element: T) => Iterable<T>
+): IterableIterator<ITraversalNode<T>> {
+  const stack: Array<{ iterator: Iterator<T>; parent: ITraversalNode<T> }> = [
+    { iterator: source[Symbol.iterator](), parent: undefined }
+  ];
+  while (stack.length) {
+    const top = stack[stack.length - 1];
+    const next = top.iterator.next();
+    if (next.done) {
+      stack.pop();
+    } else {
+      const node = traversalNode(next.value, top.parent);
+      yield node;
+      const children = childrenSelector(node.value);
+      if (children) {
+        stack.push({ iterator: children[Symbol.iterator](), parent: node });
+      }
+    }
+  }
+}
+
+function* whereIterator<T>(
+  source: Iterable<T>,
+  predicate: (value: T, index: number) => boolean
+): IterableIterator<T> {
+  let index = 0;
+  for (const value of source) {
+    if (predicate(value, index)) {
+      yield value;
+    }
+    index += 1;
+  }
+}
+
+function* windowIterator<T>(
+  source: Iterable<T>,
+  size: number,
+  step: number,
+  partial: boolean
+): IterableIterator<List<T>> {
+  let window: T[] = [];
+  // elements to pass over before the next window, when the step exceeds the size
+  let gap = 0;
+  for (const value of source) {
+    if (gap > 0) {
+      gap -= 1;
+    } else {
+      window.push(value);
+      if (window.length === size) {
+        yield new List<T>(window);
+        gap = Math.max(0, step - size);
+        window = window.slice(step);
+      }
+    }
+  }
+  while (partial && window.length) {
+    yield new List<T>(window);
+    window = window.slice(step);
+  }
+}
+
+function* zipIterator<T, U, TOut>(
+  first: Iterable<T>,
+  second: Iterable<U>,
+  result: (first: T, second: U) => TOut
+): IterableIterator<TOut> {
+  const other = second[Symbol.iterator]();
+  // the second iterator is closed when the first one ends or the caller stops, unless it ended or threw itself
+  let finished = false;
+  try {
+    for (const value of first) {
+      finished = true;
+      const next = other.next();
+      if (next.done) {
+        return;
+      }
+      finished = false;
+      yield result(value, next.value);
+    }
+  } finally {
+    if (!finished && other.return) {
+      other.return();
+    }
+  }
+}
+
+export default Sequence;
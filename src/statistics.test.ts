@@ -0,0 +1,69 @@
+import test from 'ava';
+
+import { ArgumentError, ArgumentOutOfRangeError } from './errors';
+import { histogram, mode, quantile, sum, variance } from './statistics';
+
+test('Summation', t => {
+  const values = [1e16, 1, 1, -1e16];
+  t.is(sum(values), 0);
+  t.is(sum(values, 'compensated'), 2);
+  t.is(sum([Infinity, 1], 'compensated'), Infinity);
+  t.true(isNaN(sum([NaN, 1], 'compensated')));
+  t.is(String(sum([2, '3'], 'bigint')), '5');
+  t.is(String(sum([], 'bigint')), '0');
+  t.throws(() => sum([1.5], 'bigint'), RangeError);
+  t.throws(() => sum([1], <any>'pairwise'), ArgumentError);
+});
+
+test('Quantile interpolation', t => {
+  const values = [4, 1, 3, 2];
+  t.is(quantile(values, 0.5), 2.5);
+  t.is(quantile(values, 0.25), 1.75);
+  t.is(quantile(values, 0.5, 'lower'), 2);
+  t.is(quantile(values, 0.5, 'higher'), 3);
+  t.is(quantile(values, 0.5, 'midpoint'), 2.5);
+  t.is(quantile(values, 0.25, 'nearest'), 2);
+  t.is(quantile(values, 0.5, 'nearest'), 3);
+  t.is(quantile([1, 2, 3], 0.5, 'nearest'), 2);
+  t.is(quantile([1, 2, 3, 4, 5], 0.125, 'nearest'), 1);
+  t.is(quantile(values, 0), 1);
+  t.is(quantile(values, 1), 4);
+  t.deepEqual(values, [4, 1, 3, 2]);
+});
+
+test('Quantile argument validation', t => {
+  t.true(isNaN(quantile([], 0.5)));
+  t.throws(() => quantile([1], 1.5), ArgumentOutOfRangeError);
+  t.throws(() => quantile([1], NaN), ArgumentOutOfRangeError);
+  t.throws(() => quantile([1], 0.5, <any>'cubic'), ArgumentError);
+});
+
+test('Mode', t => {
+  t.is(mode([3, 1, 3, 1, 2]), 3);
+  t.is(mode([NaN, 5, NaN]), NaN);
+  t.true(isNaN(mode([])));
+});
+
+test('Variance', t => {
+  const values = [2, 4, 4, 4, 5, 5, 7, 9];
+  t.is(variance(values, false), 4);
+  t.true(Math.abs(variance(values, true) - 32 / 7) < 1e-12);
+  // the naive sum-of-squares formula loses every significant digit here
+  t.true(
+    Math.abs(variance([1e9 + 4, 1e9 + 7, 1e9 + 13, 1e9 + 16], true) - 30) < 1e-6
+  );
+  t.is(variance([3], false), 0);
+  t.true(isNaN(variance([3], true)));
+  t.true(isNaN(variance([], false)));
+});
+
+test('Histogram', t => {
+  t.deepEqual(histogram([1, 2, 2, 3, 5], 2), [
+    { count: 3, lowerBound: 1, upperBound: 3 },
+    { count: 2, lowerBound: 3, upperBound: 5 }
+  ]);
+  t.deepEqual(histogram([7, 7], 3).map(x => x.count), [2, 0, 0]);
+  t.deepEqual(histogram([], 3), []);
+  t.throws(() => histogram([1], 0), ArgumentOutOfRangeError);
+  t.throws(() => histogram([1], 1.5), ArgumentOutOfRangeError);
+});
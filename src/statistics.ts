@@ -0,0 +1,211 @@
+import { ArgumentError, ArgumentOutOfRangeError } from './errors';
+
+// TypeScript 2.9 has no bigint type, so bigints are typed as any
+declare const BigInt: (value: any) => any;
+
+/**
+ * How values are added up: with plain floating-point addition, with Neumaier's compensated summation,
+ * which keeps the rounding error of every addition so that it can be added back at the end, or as bigints
+ */
+export type Summation = 'naive' | 'compensated' | 'bigint';
+
+/**
+ * How a quantile that falls between two data points i < j is computed, as in NumPy:
+ * linear interpolation, the lower or higher point, the nearest point (i or j, whichever is even, on a tie)
+ * or the midpoint between them
+ */
+export type QuantileInterpolation =
+  | 'linear'
+  | 'lower'
+  | 'higher'
+  | 'nearest'
+  | 'midpoint';
+
+/**
+ * A bucket of a histogram: the number of values from its lower bound up to, but excluding, its upper bound.
+ * The last bucket also includes its upper bound, which is the largest value
+ */
+export interface IHistogramBucket {
+  count: number;
+  lowerBound: number;
+  upperBound: number;
+}
+
+const naiveTotal = (): ((value: number) => number) => {
+  let total = 0;
+
+  return value => (total += value);
+};
+
+const compensatedTotal = (): ((value: number) => number) => {
+  let total = 0;
+  let compensation = 0;
+
+  return value => {
+    const next = total + value;
+    compensation +=
+      Math.abs(total) >= Math.abs(value)
+        ? total - next + value
+        : value - next + total;
+    total = next;
+
+    // once the total overflows the compensation is NaN, and the plain total is the right answer
+    return isFinite(total) ? total + compensation : total;
+  };
+};
+
+const bigintTotal = (): ((value: any) => any) => {
+  let total = BigInt(0);
+
+  return value => (total = total + BigInt(value));
+};
+
+/**
+ * Creates a running total that values are added to one at a time, which returns the sum so far after each.
+ * In bigint mode every value is converted with BigInt and the sums are bigints
+ */
+export const runningTotal = (
+  summation: Summation = 'naive'
+): ((value: any) => any) => {
+  switch (summation) {
+    case 'naive':
+      return naiveTotal();
+    case 'compensated':
+      return compensatedTotal();
+    case 'bigint':
+      return bigintTotal();
+    default:
+      throw new ArgumentError(`Unknown summation: ${summation}`, 'summation');
+  }
+};
+
+/**
+ * Adds up the values, returning a bigint in bigint mode, where every value is converted with BigInt
+ */
+export const sum = (values: any[], summation: Summation = 'naive'): any => {
+  const add = runningTotal(summation);
+
+  return values.reduce(
+    (total, value) => add(value),
+    summation === 'bigint' ? BigInt(0) : 0
+  );
+};
+
+/**
+ * Computes the q-quantile of the values, where q is between 0 and 1, or NaN when there are no values
+ */
+export const quantile = (
+  values: number[],
+  q: number,
+  interpolation: QuantileInterpolation = 'linear'
+): number => {
+  if (!(q >= 0 && q <= 1)) {
+    throw new ArgumentOutOfRangeError(
+      'q',
+      q,
+      'The quantile must be between 0 and 1.'
+    );
+  }
+  if (!values.length) {
+    return NaN;
+  }
+  const sorted = values.slice().sort((a, b) => a - b);
+  const position = (sorted.length - 1) * q;
+  const index = Math.floor(position);
+  const fraction = position - index;
+  const lower = sorted[index];
+  const upper = fraction ? sorted[index + 1] : lower;
+  switch (interpolation) {
+    case 'linear':
+      return fraction ? lower + (upper - lower) * fraction : lower;
+    case 'lower':
+      return lower;
+    case 'higher':
+      return upper;
+    case 'nearest':
+      return fraction < 0.5 || (fraction === 0.5 && index % 2 === 0)
+        ? lower
+        : upper;
+    case 'midpoint':
+      return (lower + upper) / 2;
+    default:
+      throw new ArgumentError(
+        `Unknown interpolation: ${interpolation}`,
+        'interpolation'
+      );
+  }
+};
+
+/**
+ * Computes the most frequent of the values, the first one in their order on a tie, or NaN when there are no values
+ */
+export const mode = (values: number[]): number => {
+  const counts = new Map<number, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  let result = NaN;
+  let highest = 0;
+  counts.forEach((count, value) => {
+    if (count > highest) {
+      highest = count;
+      result = value;
+    }
+  });
+
+  return result;
+};
+
+/**
+ * Computes the population variance of the values, or the sample variance, in a single pass (Welford's algorithm).
+ * Returns NaN when there are no values, or only one for the sample variance
+ */
+export const variance = (values: number[], sample: boolean): number => {
+  let mean = 0;
+  let squares = 0;
+  values.forEach((value, index) => {
+    const delta = value - mean;
+    mean += delta / (index + 1);
+    squares += delta * (value - mean);
+  });
+  const divisor = values.length - (sample ? 1 : 0);
+
+  return divisor > 0 ? squares / divisor : NaN;
+};
+
+/**
+ * Splits the range between the smallest and the largest value into buckets of equal width
+ * and counts the values in each, or returns no buckets when there are no values
+ */
+export const histogram = (
+  values: number[],
+  bucketCount: number
+): IHistogramBucket[] => {
+  if (!(bucketCount >= 1) || bucketCount % 1 !== 0) {
+    throw new ArgumentOutOfRangeError(
+      'bucketCount',
+      bucketCount,
+      'The bucket count must be a positive integer.'
+    );
+  }
+  if (!values.length) {
+    return [];
+  }
+  const min = values.reduce((a, b) => (b < a ? b : a));
+  const max = values.reduce((a, b) => (b > a ? b : a));
+  const width = (max - min) / bucketCount;
+  const buckets = Array.from(
+    { length: bucketCount },
+    (_, i): IHistogramBucket => ({
+      count: 0,
+      lowerBound: min + width * i,
+      upperBound: i === bucketCount - 1 ? max : min + width * (i + 1)
+    })
+  );
+  values.forEach(value => {
+    const index = width
+      ? Math.min(Math.floor((value - min) / width), bucketCount - 1)
+      : 0;
+    buckets[index].count += 1;
+  });
+
+  return buckets;
+};
@@ -0,0 +1,46 @@
+import test from 'ava';
+
+import List from './list';
+
+const tree = () =>
+  new List([
+    { id: 1, parentId: null },
+    { id: 2, parentId: 1 },
+    { id: 3, parentId: 2 },
+    { id: 4, parentId: 2 },
+    { id: 5, parentId: 1 }
+  ]).toTree(x => x.id, x => x.parentId);
+
+test('Ancestors', t => {
+  const leaf = tree()
+    .flatten(x => x.children)
+    .single(x => x.value.id === 4);
+  t.deepEqual(leaf.ancestors().select(x => x.value.id).toArray(), [2, 1]);
+  t.is(leaf.depth, 2);
+  t.is(leaf.ancestors().last().parent, null);
+});
+
+test('Descendants', t => {
+  const root = tree().single();
+  t.deepEqual(root.descendants().select(x => x.value.id).toArray(), [
+    2,
+    3,
+    4,
+    5
+  ]);
+  t.is(root.depth, 0);
+  t.is(
+    root
+      .descendants()
+      .where(x => !x.children.any())
+      .count(),
+    3
+  );
+  t.false(
+    root
+      .descendants()
+      .last()
+      .descendants()
+      .any()
+  );
+});
@@ -0,0 +1,55 @@
+import List from './list';
+import Sequence from './sequence';
+
+/**
+ * An element reached by a traversal of a hierarchy, with its depth (0 for the roots), its parent,
+ * which is undefined for the roots, and the path of elements from its root down to and including itself.
+ */
+export interface ITraversalNode<T> {
+  depth: number;
+  parent: T;
+  path: T[];
+  value: T;
+}
+
+/**
+ * Represents a node of a tree built by List.toTree, which wraps an element and links it to
+ * the node of its parent element and to the nodes of its child elements, in their original order.
+ */
+export default class TreeNode<T> {
+  public readonly children = new List<TreeNode<T>>();
+  public parent: TreeNode<T> = null;
+
+  constructor(public readonly value: T) {}
+
+  /**
+   * Gets the number of ancestors of the node, which is 0 for a root.
+   */
+  public get depth(): number {
+    return this.ancestors().count();
+  }
+
+  /**
+   * Returns the ancestors of the node, from its parent up to its root.
+   */
+  public ancestors(): Sequence<TreeNode<T>> {
+    return new Sequence<TreeNode<T>>(() => ancestorsIterator(this));
+  }
+
+  /**
+   * Returns the descendants of the node, depth-first, each before its own children.
+   */
+  public descendants(): Sequence<TreeNode<T>> {
+    return this.children
+      .asSequence()
+      .flatten(node => node.children);
+  }
+}
+
+function* ancestorsIterator<T>(
+  node: TreeNode<T>
+): IterableIterator<TreeNode<T>> {
+  for (let parent = node.parent; parent; parent = parent.parent) {
+    yield parent;
+  }
+}